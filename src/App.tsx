@@ -1,40 +1,40 @@
 import './App.css'
 
-import { FormEvent, useState } from 'react'
-
-import { processFormData } from './utils/formUtils'
-
-interface FormData {
-  contactMethod?: string
-  profiles?: Array<{
-    name?: string
-    email?: string
-  }>
-  ssns?: string[]
-}
+import { FieldArray } from './components/FieldArray'
+import { useFormData } from './hooks/useFormData'
+import { useFormDraft } from './hooks/useFormDraft'
+import { fileReplacer } from './utils/fileUtils'
+import { parseWithSchema, schema } from './utils/schemaUtils'
+
+const formSchema = schema.object({
+  contactMethod: schema.enum(['email', 'phone', 'mail']),
+  profile: schema.array(
+    schema.object({
+      name: schema.string(),
+      email: schema.string({ pattern: /^[^\s@]+@[^\s@]+$/ }).optional(),
+    })
+  ),
+  ssns: schema.array(schema.string({ pattern: /^\d{3}-\d{2}-\d{4}$/ })),
+})
 
 function App() {
-  const [formResult, setFormResult] = useState<FormData | null>(null)
-
-  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
-    e.preventDefault()
-
-    // Get form data
-    const formData = new FormData(e.currentTarget)
-
-    // Process the form data using our generic function
-    const processedData = processFormData(formData)
-
-    // Update state with the processed data
-    setFormResult(processedData)
-  }
+  // Process and validate the form data against the schema on every submit
+  const { formProps, data: formResult } = useFormData({
+    parse: formData => parseWithSchema(formSchema, formData),
+    // Nothing to send yet; a handler keeps the browser from navigating away
+    onSubmit: result => {
+      if (result.success) void draft.clear()
+    },
+  })
+  // Keep unsent input across reloads, including added profile and SSN rows
+  const draft = useFormDraft(formProps.ref, { key: 'profilesForm' })
 
   return (
     <div className="app-container">
       <h1>Form Data Parser</h1>
 
       <div className="form-container">
-        <form id="profilesForm" onSubmit={handleSubmit}>
+        <form id="profilesForm" {...formProps}>
           <fieldset>
             <legend>Select your preferred contact method:</legend>
             <label>
@@ -51,47 +51,81 @@ function App() {
             </label>
           </fieldset>
 
-          <div className="profile" data-profile-index="0">
-            <h3>Profile 1</h3>
-            <div className="input-group">
-              <input type="text" name="profile[0][name]" placeholder="Name" />
-              <input type="text" name="profile[0][email]" placeholder="Email" />
-            </div>
-          </div>
-
-          <div className="profile" data-profile-index="1">
-            <h3>Profile 2</h3>
-            <div className="input-group">
-              <input type="text" name="profile[1][name]" placeholder="Name" />
-              <input type="text" name="profile[1][email]" placeholder="Email" />
-            </div>
-          </div>
-
-          <div className="profile" data-profile-index="2">
-            <h3>Profile 3</h3>
-            <div className="input-group">
-              <input type="text" name="profile[2][name]" placeholder="Name" />
-              <input type="text" name="profile[2][email]" placeholder="Email" />
-            </div>
-          </div>
-
-          <div className="profile" data-profile-index="3">
-            <h3>SSNs</h3>
-            <div className="input-group">
-              <input type="text" name="ssns[0]" placeholder="SSN" />
-              <input type="text" name="ssns[1]" placeholder="SSN" />
-              <input type="text" name="ssns[2]" placeholder="SSN" />
-            </div>
-          </div>
-
+          <FieldArray name="profile" initialCount={3} count={draft.rowCounts.profile}>
+            {({ rows, append, remove, move, getDragProps }) => (
+              <>
+                {rows.map(row => (
+                  <div key={row.key} className="profile" data-profile-index={row.index} {...getDragProps(row.index)}>
+                    <h3>Profile {row.index + 1}</h3>
+                    <div className="input-group">
+                      <input type="text" name={row.name('name')} placeholder="Name" />
+                      <input type="text" name={row.name('email')} placeholder="Email" />
+                    </div>
+                    <div className="row-actions">
+                      <button type="button" onClick={() => move(row.index, row.index - 1)} disabled={row.index === 0}>
+                        Move up
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => move(row.index, row.index + 1)}
+                        disabled={row.index === rows.length - 1}
+                      >
+                        Move down
+                      </button>
+                      <button type="button" onClick={() => remove(row.index)}>
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <button type="button" onClick={append}>
+                  Add profile
+                </button>
+              </>
+            )}
+          </FieldArray>
+
+          <FieldArray name="ssns" initialCount={3} count={draft.rowCounts.ssns}>
+            {({ rows, append, remove }) => (
+              <div className="profile">
+                <h3>SSNs</h3>
+                {rows.map(row => (
+                  <div key={row.key} className="input-group">
+                    <input type="text" name={row.name()} placeholder="SSN" />
+                    <button type="button" onClick={() => remove(row.index)}>
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button type="button" onClick={append}>
+                  Add SSN
+                </button>
+              </div>
+            )}
+          </FieldArray>
+
+          {draft.notice && <p className="draft-notice">{draft.notice}</p>}
           <button type="submit">Submit</button>
         </form>
       </div>
 
-      {formResult && (
+      {formResult && !formResult.success && (
+        <div className="result-container">
+          <h2>Errors:</h2>
+          <ul>
+            {formResult.errors.map(error => (
+              <li key={`${error.field}-${error.code}`}>
+                <code>{error.field}</code>: {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {formResult?.success && (
         <div className="result-container">
           <h2>Form Result:</h2>
-          <pre>{JSON.stringify(formResult, null, 2)}</pre>
+          <pre>{JSON.stringify(formResult.data, fileReplacer, 2)}</pre>
         </div>
       )}
     </div>
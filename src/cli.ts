@@ -0,0 +1,19 @@
+import { readFile } from 'node:fs/promises'
+
+import { runCli } from './utils/cliUtils'
+
+/**
+ * Reads all of stdin
+ * @returns The bytes
+ */
+async function readStdin(): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk)
+  return new Uint8Array(await new Blob(chunks).arrayBuffer())
+}
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  read: path => (path === null ? readStdin() : readFile(path)),
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+})
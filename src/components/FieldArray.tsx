@@ -0,0 +1,15 @@
+import { ReactNode } from 'react'
+
+import { FieldArrayState, useFieldArray, UseFieldArrayOptions } from '../hooks/useFieldArray'
+
+export interface FieldArrayProps extends UseFieldArrayOptions {
+  // Renders the rows and the controls that change them
+  children: (state: FieldArrayState) => ReactNode
+}
+
+/**
+ * A repeatable field group built on useFieldArray
+ */
+export function FieldArray({ children, ...options }: FieldArrayProps) {
+  return <>{children(useFieldArray(options))}</>
+}
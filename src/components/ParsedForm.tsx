@@ -0,0 +1,54 @@
+import { FormHTMLAttributes, ReactNode } from 'react'
+
+import { FormDataState, useFormData, UseFormDataOptions } from '../hooks/useFormData'
+import { ProcessedFormData, ProcessFormDataOptions } from '../utils/formUtils'
+
+export interface ParsedFormProps<T = ProcessedFormData>
+  extends
+    Omit<FormHTMLAttributes<HTMLFormElement>, 'onSubmit' | 'children'>,
+    Pick<UseFormDataOptions<T>, 'parse' | 'parseOnChange' | 'onSubmit'> {
+  // Options passed to processFormData when no custom parse function is given
+  processOptions?: ProcessFormDataOptions
+  // Form content, or a function of the parsed data and form state
+  children?: ReactNode | ((state: FormDataState<T>) => ReactNode)
+}
+
+/**
+ * A <form> wired to useFormData, exposing the parsed data and form state to its children
+ */
+export function ParsedForm<T = ProcessedFormData>({
+  parse,
+  parseOnChange,
+  onSubmit,
+  processOptions,
+  children,
+  onChange,
+  onBlur,
+  onReset,
+  ...formAttributes
+}: ParsedFormProps<T>) {
+  const state = useFormData<T>({ ...processOptions, parse, parseOnChange, onSubmit })
+  const { formProps } = state
+
+  return (
+    <form
+      {...formAttributes}
+      ref={formProps.ref}
+      onSubmit={formProps.onSubmit}
+      onChange={event => {
+        formProps.onChange(event)
+        onChange?.(event)
+      }}
+      onBlur={event => {
+        formProps.onBlur(event)
+        onBlur?.(event)
+      }}
+      onReset={event => {
+        formProps.onReset(event)
+        onReset?.(event)
+      }}
+    >
+      {typeof children === 'function' ? children(state) : children}
+    </form>
+  )
+}
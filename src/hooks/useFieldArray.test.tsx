@@ -0,0 +1,156 @@
+import { act } from 'react'
+import { describe, expect, it, vi } from 'vitest'
+
+import { FieldArray } from '../components/FieldArray'
+import { processFormData } from '../utils/formUtils'
+import { query, queryAll, render, type } from '../test/render'
+import { FieldArrayState } from './useFieldArray'
+import { useFormData } from './useFormData'
+
+// Helper function to dispatch a drag and drop event that React handles
+function drag(element: Element, type: 'dragstart' | 'dragover' | 'drop' | 'dragend'): void {
+  act(() => {
+    element.dispatchEvent(new Event(type, { bubbles: true, cancelable: true }))
+  })
+}
+
+describe('useFieldArray', () => {
+  // Renders a profile form whose rows are managed by a field array, submitting through useFormData
+  function renderProfiles(initialCount = 3) {
+    const fieldArray = {} as { current: FieldArrayState }
+    const onSubmit = vi.fn()
+
+    function ProfilesForm() {
+      const { formProps } = useFormData({ onSubmit })
+      return (
+        <form {...formProps}>
+          <FieldArray name="profile" initialCount={initialCount}>
+            {state => {
+              fieldArray.current = state
+              return state.rows.map(row => (
+                <div key={row.key} className="row" {...state.getDragProps(row.index)}>
+                  <input name={row.name('name')} />
+                  <input name={row.name('email')} />
+                </div>
+              ))
+            }}
+          </FieldArray>
+          <input name="ssns[0]" defaultValue="123-45-6789" />
+        </form>
+      )
+    }
+
+    render(<ProfilesForm />)
+
+    const fillRows = (...names: string[]) =>
+      queryAll('input[name$="[name]"]').forEach((input, index) => type(input, names[index]))
+
+    const submit = async (): Promise<unknown> => {
+      const form = query<HTMLFormElement>('form')
+      await act(async () => form.requestSubmit())
+      // The hook's result must match a direct parse of the same form
+      expect(onSubmit.mock.lastCall?.[0]).toEqual(processFormData(new FormData(form)))
+      return onSubmit.mock.lastCall?.[0]
+    }
+
+    return { fieldArray, fillRows, submit }
+  }
+
+  const names = (): string[] => queryAll('input').map(input => input.name)
+
+  it('should generate indexed field names for each row', () => {
+    renderProfiles(2)
+
+    expect(names()).toEqual([
+      'profile[0][name]',
+      'profile[0][email]',
+      'profile[1][name]',
+      'profile[1][email]',
+      'ssns[0]',
+    ])
+  })
+
+  it('should append and insert rows', async () => {
+    const { fieldArray, fillRows, submit } = renderProfiles(2)
+    fillRows('John', 'Jane')
+
+    act(() => fieldArray.current.append())
+    act(() => fieldArray.current.insert(0))
+    fillRows('First', 'John', 'Jane', 'Last')
+
+    expect(await submit()).toEqual({
+      profile: [{ name: 'First' }, { name: 'John' }, { name: 'Jane' }, { name: 'Last' }],
+      ssns: ['123-45-6789'],
+    })
+  })
+
+  it('should renumber the remaining rows on removal', async () => {
+    const { fieldArray, fillRows, submit } = renderProfiles()
+    fillRows('John', 'Jane', 'Jim')
+    type(queryAll('input[name="profile[2][email]"]')[0], 'jim@example.com')
+
+    act(() => fieldArray.current.remove(1))
+
+    expect(names()).toEqual([
+      'profile[0][name]',
+      'profile[0][email]',
+      'profile[1][name]',
+      'profile[1][email]',
+      'ssns[0]',
+    ])
+    expect(queryAll('input[name="profile[1][name]"]')[0].value).toBe('Jim')
+    expect(await submit()).toEqual({
+      profile: [{ name: 'John' }, { name: 'Jim', email: 'jim@example.com' }],
+      ssns: ['123-45-6789'],
+    })
+  })
+
+  it('should keep typed values with their row when rows move', async () => {
+    const { fieldArray, fillRows, submit } = renderProfiles()
+    fillRows('John', 'Jane', 'Jim')
+
+    act(() => fieldArray.current.move(2, 0))
+
+    expect(queryAll('input[name$="[name]"]').map(input => input.value)).toEqual(['Jim', 'John', 'Jane'])
+    expect(await submit()).toMatchObject({ profile: [{ name: 'Jim' }, { name: 'John' }, { name: 'Jane' }] })
+  })
+
+  it('should reorder rows by drag and drop', async () => {
+    const { fillRows, submit } = renderProfiles()
+    fillRows('John', 'Jane', 'Jim')
+    const rows = queryAll<HTMLElement>('.row')
+
+    drag(rows[0], 'dragstart')
+    drag(rows[2], 'dragover')
+    drag(rows[2], 'drop')
+    drag(rows[0], 'dragend')
+
+    expect(await submit()).toMatchObject({ profile: [{ name: 'Jane' }, { name: 'Jim' }, { name: 'John' }] })
+  })
+
+  it('should ignore moves outside the rows', async () => {
+    const { fieldArray, fillRows, submit } = renderProfiles(2)
+    fillRows('John', 'Jane')
+
+    act(() => fieldArray.current.move(0, 5))
+
+    expect(await submit()).toMatchObject({ profile: [{ name: 'John' }, { name: 'Jane' }] })
+  })
+
+  it('should support nested array names and dot syntax', () => {
+    const rowNames: string[] = []
+
+    render(
+      <>
+        <FieldArray name="user[addresses]" initialCount={1}>
+          {({ rows }) => rows.map(row => rowNames.push(row.name('city'), row.name()) && null)}
+        </FieldArray>
+        <FieldArray name="items" initialCount={1} pathSyntax="dot">
+          {({ rows }) => rows.map(row => rowNames.push(row.name(['tags', 0])) && null)}
+        </FieldArray>
+      </>
+    )
+
+    expect(rowNames).toEqual(['user[addresses][0][city]', 'user[addresses][0]', 'items.0.tags.0'])
+  })
+})
@@ -0,0 +1,144 @@
+import { DragEvent, useCallback, useRef, useState } from 'react'
+
+import { PathSegment, PathSyntax } from '../utils/formUtils'
+
+/**
+ * Type definitions for repeatable field groups
+ */
+export interface UseFieldArrayOptions {
+  // Field name of the array, e.g. `profile` or `user[addresses]`
+  name: string
+  // Number of rows to start with (default: 1)
+  initialCount?: number
+  // Number of rows to show; when it changes, rows are added or removed at the end, e.g. to restore a draft
+  count?: number
+  // How row field names are written (default: 'bracket')
+  pathSyntax?: PathSyntax
+}
+
+export interface FieldArrayRow {
+  // Stable React key that follows the row when it moves
+  key: string
+  // Current position, which is also the index in the field names
+  index: number
+  // Field name for this row, e.g. `profile[1][email]`; without a field, the row itself
+  name: (field?: string | PathSegment[]) => string
+}
+
+// Handlers to spread onto a row element to reorder rows by drag and drop
+export interface FieldArrayDragProps {
+  draggable: true
+  onDragStart: (event: DragEvent<HTMLElement>) => void
+  onDragOver: (event: DragEvent<HTMLElement>) => void
+  onDrop: (event: DragEvent<HTMLElement>) => void
+  onDragEnd: () => void
+}
+
+export interface FieldArrayState {
+  rows: FieldArrayRow[]
+  // Adds a row at the end
+  append: () => void
+  // Adds a row before the given position
+  insert: (index: number) => void
+  // Removes the row at a position; later rows move up and are renumbered
+  remove: (index: number) => void
+  // Moves a row to another position, renumbering the rows in between
+  move: (from: number, to: number) => void
+  getDragProps: (index: number) => FieldArrayDragProps
+}
+
+/**
+ * Appends path segments to a field name
+ * @param name - The base field name
+ * @param segments - Keys and indices to append
+ * @param syntax - Bracket or dot notation
+ * @returns The field name, e.g. `profile[0][email]` or `profile.0.email`
+ */
+function appendSegments(name: string, segments: PathSegment[], syntax: PathSyntax): string {
+  return segments.reduce<string>(
+    (fieldName, segment) => (syntax === 'dot' ? `${fieldName}.${segment}` : `${fieldName}[${segment}]`),
+    name
+  )
+}
+
+/**
+ * Manages the rows of a repeatable field group. Rows keep a stable key while their
+ * field names follow their position, so after a removal or reorder the submitted
+ * indices match the order on screen and processFormData returns the rows as displayed.
+ * @param options - The array's field name and initial row count
+ * @returns The rows and the functions that change them
+ */
+export function useFieldArray({
+  name,
+  initialCount = 1,
+  count,
+  pathSyntax = 'bracket',
+}: UseFieldArrayOptions): FieldArrayState {
+  const startCount = count ?? initialCount
+  const nextKey = useRef(startCount)
+  const dragIndex = useRef<number | null>(null)
+  const [keys, setKeys] = useState(() => Array.from({ length: startCount }, (_, index) => String(index)))
+  const [appliedCount, setAppliedCount] = useState(count)
+
+  const createKey = () => String(nextKey.current++)
+
+  // Adjusted while rendering, so the rows are in the DOM when the parent's effects run
+  if (count !== undefined && count !== appliedCount) {
+    setAppliedCount(count)
+    setKeys(previous =>
+      count <= previous.length
+        ? previous.slice(0, count)
+        : [...previous, ...Array.from({ length: count - previous.length }, createKey)]
+    )
+  }
+
+  const insert = useCallback((index: number) => {
+    const key = createKey()
+    setKeys(previous => [...previous.slice(0, index), key, ...previous.slice(index)])
+  }, [])
+
+  const append = useCallback(() => {
+    const key = createKey()
+    setKeys(previous => [...previous, key])
+  }, [])
+
+  const remove = useCallback((index: number) => {
+    setKeys(previous => previous.filter((_, position) => position !== index))
+  }, [])
+
+  const move = useCallback((from: number, to: number) => {
+    setKeys(previous => {
+      if (from === to || from < 0 || to < 0 || from >= previous.length || to >= previous.length) return previous
+      const next = [...previous]
+      next.splice(to, 0, ...next.splice(from, 1))
+      return next
+    })
+  }, [])
+
+  const getDragProps = (index: number): FieldArrayDragProps => ({
+    draggable: true,
+    onDragStart: event => {
+      dragIndex.current = index
+      if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move'
+    },
+    // Allows dropping onto this row
+    onDragOver: event => event.preventDefault(),
+    onDrop: event => {
+      event.preventDefault()
+      if (dragIndex.current !== null) move(dragIndex.current, index)
+      dragIndex.current = null
+    },
+    onDragEnd: () => {
+      dragIndex.current = null
+    },
+  })
+
+  const rows = keys.map((key, index) => ({
+    key,
+    index,
+    name: (field?: string | PathSegment[]) =>
+      appendSegments(name, [index, ...(field === undefined ? [] : Array.isArray(field) ? field : [field])], pathSyntax),
+  }))
+
+  return { rows, append, insert, remove, move, getDragProps }
+}
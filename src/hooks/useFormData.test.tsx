@@ -0,0 +1,222 @@
+import { act, useActionState } from 'react'
+import { describe, expect, it, vi } from 'vitest'
+
+import { ParsedForm } from '../components/ParsedForm'
+import { withFormData } from '../utils/actionUtils'
+import { ProcessedFormData, processFormData } from '../utils/formUtils'
+import { query, render, type } from '../test/render'
+import { FormDataState, useFormData, UseFormDataOptions } from './useFormData'
+
+// Helper function to submit a form and let async handlers start
+async function submit(form: HTMLFormElement): Promise<void> {
+  await act(async () => form.requestSubmit())
+}
+
+describe('useFormData', () => {
+  // Renders a profile form with the hook and exposes its latest state
+  function renderProfileForm(options: UseFormDataOptions = {}): { current: FormDataState } {
+    const state = {} as { current: FormDataState }
+
+    function ProfileForm() {
+      state.current = useFormData(options)
+      return (
+        <form {...state.current.formProps}>
+          <input name="profile[0][name]" defaultValue="John Doe" />
+          <input name="profile[0][email]" />
+          <input name="profile[1][name]" />
+          <input type="checkbox" name="subscribe" />
+          <button type="submit">Save</button>
+        </form>
+      )
+    }
+
+    render(<ProfileForm />)
+    return state
+  }
+
+  it('should parse the form on submit', async () => {
+    const onSubmit = vi.fn()
+    const state = renderProfileForm({ onSubmit })
+
+    type(query('[name="profile[1][name]"]'), 'Jane Smith')
+    expect(state.current.data).toBeNull()
+
+    await submit(query('form'))
+
+    const expected = { profile: [{ name: 'John Doe' }, { name: 'Jane Smith' }] }
+    expect(state.current.data).toEqual(expected)
+    expect(onSubmit).toHaveBeenCalledWith(expected, expect.any(FormData))
+  })
+
+  it('should parse on every change with parseOnChange', () => {
+    const state = renderProfileForm({ parseOnChange: true })
+
+    type(query('[name="profile[0][email]"]'), 'john@example.com')
+    expect(state.current.data).toEqual({ profile: [{ name: 'John Doe', email: 'john@example.com' }] })
+
+    act(() => query<HTMLInputElement>('[name="subscribe"]').click())
+    expect(state.current.data).toMatchObject({ subscribe: 'on' })
+  })
+
+  it('should pass processFormData options through', () => {
+    const state = renderProfileForm({ parseOnChange: true, emptyStrings: 'null', pruneEmptyObjects: false })
+
+    type(query('[name="profile[1][name]"]'), 'x')
+    type(query('[name="profile[1][name]"]'), '')
+
+    expect(state.current.data).toEqual({
+      profile: [{ name: 'John Doe', email: null }, { name: null }],
+    })
+  })
+
+  it('should track dirty fields by bracket path', () => {
+    const state = renderProfileForm()
+    expect(state.current.isDirty()).toBe(false)
+
+    type(query('[name="profile[1][name]"]'), 'Jane Smith')
+
+    expect(state.current.dirtyFields).toEqual(['profile[1][name]'])
+    expect(state.current.isDirty('profile[1]')).toBe(true)
+    expect(state.current.isDirty(['profile', 1, 'name'])).toBe(true)
+    expect(state.current.isDirty('profile')).toBe(true)
+    expect(state.current.isDirty('profile[0]')).toBe(false)
+
+    // Typing the initial value back makes the field clean again
+    type(query('[name="profile[1][name]"]'), '')
+    expect(state.current.isDirty()).toBe(false)
+  })
+
+  it('should track touched fields on blur', () => {
+    const state = renderProfileForm()
+
+    act(() => {
+      query<HTMLInputElement>('[name="profile[0][email]"]').focus()
+      query<HTMLInputElement>('[name="profile[1][name]"]').focus()
+    })
+
+    expect(state.current.touchedFields).toEqual(['profile[0][email]'])
+    expect(state.current.isTouched('profile[0]')).toBe(true)
+    expect(state.current.isTouched('profile[1]')).toBe(false)
+  })
+
+  it('should clear dirty and touched state on reset', () => {
+    const state = renderProfileForm()
+    const input = query<HTMLInputElement>('[name="profile[0][name]"]')
+
+    act(() => input.focus())
+    type(input, 'Johnny')
+    act(() => input.blur())
+    expect(state.current.isDirty('profile[0][name]')).toBe(true)
+    expect(state.current.isTouched('profile[0][name]')).toBe(true)
+
+    act(() => state.current.reset())
+
+    expect(input.value).toBe('John Doe')
+    expect(state.current.isDirty()).toBe(false)
+    expect(state.current.isTouched()).toBe(false)
+  })
+
+  it('should report pending state while an async submit runs', async () => {
+    let resolveSubmit = () => {}
+    const state = renderProfileForm({
+      onSubmit: () => new Promise<void>(resolve => (resolveSubmit = resolve)),
+    })
+
+    await submit(query('form'))
+    expect(state.current.isPending).toBe(true)
+
+    await act(async () => resolveSubmit())
+    expect(state.current.isPending).toBe(false)
+    expect(state.current.submitError).toBeNull()
+  })
+
+  it('should keep the error thrown by an async submit', async () => {
+    const failure = new Error('Network down')
+    const state = renderProfileForm({ onSubmit: async () => Promise.reject(failure) })
+
+    await submit(query('form'))
+
+    expect(state.current.isPending).toBe(false)
+    expect(state.current.submitError).toBe(failure)
+  })
+
+  it('should keep parse errors instead of submitting', async () => {
+    const onSubmit = vi.fn()
+    const state = renderProfileForm({ onSubmit, maxKeys: 2 })
+
+    await submit(query('form'))
+
+    expect(onSubmit).not.toHaveBeenCalled()
+    expect(state.current.submitError).toMatchObject({ code: 'MAX_KEYS' })
+  })
+
+  it('should keep parse errors on change instead of throwing', () => {
+    const state = renderProfileForm({
+      parseOnChange: true,
+      parse: formData => {
+        if (formData.get('profile[1][name]') === 'x') throw new Error('Invalid name')
+        return processFormData(formData, { maxKeys: 3 })
+      },
+    })
+
+    type(query('[name="profile[1][name]"]'), 'x')
+    expect(state.current.submitError).toMatchObject({ message: 'Invalid name' })
+
+    type(query('[name="profile[1][name]"]'), 'Jane Smith')
+    expect(state.current.submitError).toBeNull()
+    expect(state.current.data).toEqual({ profile: [{ name: 'John Doe' }, { name: 'Jane Smith' }] })
+
+    act(() => query<HTMLInputElement>('[name="subscribe"]').click())
+    expect(state.current.submitError).toMatchObject({ code: 'MAX_KEYS' })
+    expect(state.current.data).toEqual({ profile: [{ name: 'John Doe' }, { name: 'Jane Smith' }] })
+  })
+
+  it('should run the same parsing in a useActionState form action', async () => {
+    const saveProfile = withFormData(
+      async (previous: ProcessedFormData[], data: ProcessedFormData) => [...previous, data],
+      { trimStrings: true }
+    )
+
+    function ActionForm() {
+      const [saved, formAction, isPending] = useActionState(saveProfile, [])
+      return (
+        <form action={formAction}>
+          <input name="user[name]" defaultValue=" John Doe " />
+          <input name="user[tags][]" defaultValue="admin" />
+          <output>{isPending ? 'saving' : JSON.stringify(saved)}</output>
+        </form>
+      )
+    }
+
+    render(<ActionForm />)
+    await submit(query('form'))
+
+    expect(JSON.parse(query('output').textContent ?? '')).toEqual([{ user: { name: 'John Doe', tags: ['admin'] } }])
+  })
+})
+
+describe('ParsedForm', () => {
+  it('should render children with the parsed data and form state', async () => {
+    const onSubmit = vi.fn()
+
+    render(
+      <ParsedForm onSubmit={onSubmit} processOptions={{ pathSyntax: 'dot' }} className="profile-form">
+        {({ data, isDirty }) => (
+          <>
+            <input name="user.name" defaultValue="John Doe" />
+            <button type="submit">Save</button>
+            <output>{isDirty('user') ? 'dirty' : JSON.stringify(data)}</output>
+          </>
+        )}
+      </ParsedForm>
+    )
+
+    const form = query<HTMLFormElement>('form')
+    expect(form.className).toBe('profile-form')
+
+    await submit(form)
+
+    expect(onSubmit).toHaveBeenCalledWith({ user: { name: 'John Doe' } }, expect.any(FormData))
+    expect(query('output').textContent).toBe('{"user":{"name":"John Doe"}}')
+  })
+})
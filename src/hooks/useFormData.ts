@@ -0,0 +1,212 @@
+import { FocusEvent, FormEvent, RefObject, useCallback, useEffect, useRef, useState, useTransition } from 'react'
+
+import { ParseFormOptions, resolveFormParser } from '../utils/actionUtils'
+import { PathSegment, ProcessedFormData, toFieldName } from '../utils/formUtils'
+
+/**
+ * Type definitions for the form hook
+ */
+export interface UseFormDataOptions<T = ProcessedFormData> extends ParseFormOptions<T> {
+  // Parse on every change instead of only on submit (default: false)
+  parseOnChange?: boolean
+  // Receives the parsed data on submit; a returned promise keeps `isPending` true until it settles
+  onSubmit?: (data: T, formData: FormData) => void | Promise<void>
+}
+
+// Handlers to spread onto the <form> element
+export interface FormDataProps {
+  ref: RefObject<HTMLFormElement | null>
+  onSubmit: (event: FormEvent<HTMLFormElement>) => void
+  onChange: (event: FormEvent<HTMLFormElement>) => void
+  onBlur: (event: FocusEvent<HTMLFormElement>) => void
+  onReset: (event: FormEvent<HTMLFormElement>) => void
+}
+
+// A field name such as `profile[0]`, or the equivalent path `['profile', 0]`
+export type FieldPath = string | PathSegment[]
+
+export interface FormDataState<T = ProcessedFormData> {
+  formProps: FormDataProps
+  // The last parsed value, or null before the first submit (or change, with parseOnChange)
+  data: T | null
+  // Whether an async onSubmit is still running
+  isPending: boolean
+  // The error thrown while parsing or by the last onSubmit, if any
+  submitError: unknown
+  // Names of the fields whose value differs from the initial one
+  dirtyFields: string[]
+  // Names of the fields that have lost focus at least once
+  touchedFields: string[]
+  // Whether a field, or any field below a path, is dirty; without a path, whether any field is
+  isDirty: (path?: FieldPath) => boolean
+  // Whether a field, or any field below a path, is touched; without a path, whether any field is
+  isTouched: (path?: FieldPath) => boolean
+  // Resets the form to its initial values and clears dirty and touched state
+  reset: () => void
+}
+
+type FieldSnapshot = Map<string, string[]>
+
+/**
+ * Captures the submitted values of a form, keyed by field name
+ * @param form - The form element
+ * @returns Every field's values, with files reduced to their name and size
+ */
+function snapshotForm(form: HTMLFormElement): FieldSnapshot {
+  const snapshot: FieldSnapshot = new Map()
+  new FormData(form).forEach((value, key) => {
+    const entry = typeof value === 'string' ? value : `${value.name}:${value.size}`
+    snapshot.set(key, [...(snapshot.get(key) ?? []), entry])
+  })
+  return snapshot
+}
+
+/**
+ * Lists the fields whose values differ between two snapshots
+ * @returns The field names in form order
+ */
+function diffSnapshots(initial: FieldSnapshot, current: FieldSnapshot): string[] {
+  const keys = new Set([...current.keys(), ...initial.keys()])
+  return [...keys].filter(key => {
+    const before = initial.get(key) ?? []
+    const after = current.get(key) ?? []
+    return before.length !== after.length || before.some((value, index) => value !== after[index])
+  })
+}
+
+// A field lies below a path when its name continues the path with another bracket segment
+const isWithinPath = (field: string, prefix: string): boolean =>
+  field === prefix || field.startsWith(`${prefix}[`) || field.startsWith(`${prefix}.`)
+
+/**
+ * Parses a form with processFormData, on submit and optionally on every change,
+ * and tracks dirty and touched fields by name
+ * @param options - Parsing options and the submit handler
+ * @returns The parsed data, form state and the props to spread onto the <form>
+ */
+export function useFormData<T = ProcessedFormData>(options: UseFormDataOptions<T> = {}): FormDataState<T> {
+  // The parse options leave out the hook's own, which processFormData has no use for
+  const { parseOnChange, onSubmit: handleSubmit, ...parseOptions } = options
+  const latestOptions = { parseOnChange, handleSubmit, parseOptions }
+  const ref = useRef<HTMLFormElement>(null)
+  const optionsRef = useRef(latestOptions)
+  // The parser for the latest parse options, compiled when a form is first parsed with them
+  const parserRef = useRef<{ options: ParseFormOptions<T>; parse: (formData: FormData) => T } | null>(null)
+  const initialRef = useRef<FieldSnapshot>(new Map())
+  // The error the last change failed to parse with, cleared once the form parses again
+  const changeErrorRef = useRef<unknown>(null)
+  const [data, setData] = useState<T | null>(null)
+  const [submitError, setSubmitError] = useState<unknown>(null)
+  const [dirtyFields, setDirtyFields] = useState<string[]>([])
+  const [touchedFields, setTouchedFields] = useState<string[]>([])
+  const [isPending, startTransition] = useTransition()
+
+  // Handlers read the latest options without being recreated on every render
+  useEffect(() => {
+    optionsRef.current = latestOptions
+  })
+
+  const parseForm = useCallback((formData: FormData): T => {
+    const { parseOptions } = optionsRef.current
+    if (parserRef.current?.options !== parseOptions) {
+      parserRef.current = { options: parseOptions, parse: resolveFormParser(parseOptions) }
+    }
+    return parserRef.current.parse(formData)
+  }, [])
+
+  // Values present on mount are the baseline for dirty tracking
+  useEffect(() => {
+    if (ref.current) initialRef.current = snapshotForm(ref.current)
+  }, [])
+
+  const updateDirty = useCallback((form: HTMLFormElement) => {
+    const dirty = diffSnapshots(initialRef.current, snapshotForm(form))
+    setDirtyFields(previous =>
+      previous.length === dirty.length && previous.every((key, index) => key === dirty[index]) ? previous : dirty
+    )
+  }, [])
+
+  const onChange = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      updateDirty(event.currentTarget)
+      if (!optionsRef.current.parseOnChange) return
+
+      let parsed: T
+      try {
+        parsed = parseForm(new FormData(event.currentTarget))
+      } catch (error) {
+        // Reported like a rejected submit, keeping the last data that parsed
+        changeErrorRef.current = error
+        setSubmitError(error)
+        return
+      }
+      setData(parsed)
+
+      // An error from onSubmit stays until the next submit
+      const changeError = changeErrorRef.current
+      changeErrorRef.current = null
+      if (changeError !== null) setSubmitError((current: unknown) => (current === changeError ? null : current))
+    },
+    [updateDirty, parseForm]
+  )
+
+  const onBlur = useCallback((event: FocusEvent<HTMLFormElement>) => {
+    const name = (event.target as Partial<HTMLInputElement>).name
+    if (name) setTouchedFields(previous => (previous.includes(name) ? previous : [...previous, name]))
+  }, [])
+
+  const onReset = useCallback(() => {
+    setDirtyFields([])
+    setTouchedFields([])
+    setSubmitError(null)
+  }, [])
+
+  const onSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      const { handleSubmit } = optionsRef.current
+      const submitter = (event.nativeEvent as SubmitEvent).submitter
+      const formData = new FormData(event.currentTarget, submitter)
+      let parsed: T
+      try {
+        parsed = parseForm(formData)
+      } catch (error) {
+        // Input the parser rejects, e.g. past a limit, is never submitted
+        event.preventDefault()
+        setSubmitError(error)
+        return
+      }
+      setData(parsed)
+      setSubmitError(null)
+
+      // Without a handler the submission continues, e.g. to a form action
+      if (!handleSubmit) return
+      event.preventDefault()
+      startTransition(async () => {
+        try {
+          await handleSubmit(parsed, formData)
+        } catch (error) {
+          setSubmitError(error)
+        }
+      })
+    },
+    [parseForm]
+  )
+
+  const matches = (fields: string[], path?: FieldPath): boolean => {
+    if (path === undefined) return fields.length > 0
+    const prefix = typeof path === 'string' ? path : toFieldName(path, options.pathSyntax)
+    return fields.some(field => isWithinPath(field, prefix))
+  }
+
+  return {
+    formProps: { ref, onSubmit, onChange, onBlur, onReset },
+    data,
+    isPending,
+    submitError,
+    dirtyFields,
+    touchedFields,
+    isDirty: path => matches(dirtyFields, path),
+    isTouched: path => matches(touchedFields, path),
+    reset: () => ref.current?.reset(),
+  }
+}
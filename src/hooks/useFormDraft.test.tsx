@@ -0,0 +1,154 @@
+import { act, useRef } from 'react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { FieldArray } from '../components/FieldArray'
+import { query, queryAll, renderAsync, type, unmount } from '../test/render'
+import { memoryDraftStorage, StoredDraft } from '../utils/draftUtils'
+import { FormDraftState, useFormDraft, UseFormDraftOptions } from './useFormDraft'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('useFormDraft', () => {
+  const stored = (data: StoredDraft['data'], version = 1): StoredDraft => ({ version, savedAt: 1000, data, files: {} })
+
+  // Renders a profile form with field array rows, exposing the draft state
+  async function renderProfiles(options: Omit<UseFormDraftOptions, 'key'>) {
+    const state = {} as { current: FormDraftState }
+
+    function ProfilesForm() {
+      const ref = useRef<HTMLFormElement>(null)
+      state.current = useFormDraft(ref, { key: 'profiles', ...options })
+      return (
+        <form ref={ref}>
+          <FieldArray name="profile" initialCount={1} count={state.current.rowCounts.profile}>
+            {({ rows, append }) => (
+              <>
+                {rows.map(row => (
+                  <input key={row.key} name={row.name('name')} />
+                ))}
+                <button type="button" onClick={append}>
+                  Add
+                </button>
+              </>
+            )}
+          </FieldArray>
+          <input type="file" name="avatar" />
+        </form>
+      )
+    }
+
+    // Waits for the stored draft to load
+    await renderAsync(<ProfilesForm />)
+    return state
+  }
+
+  it('should save the form after a pause in typing', async () => {
+    vi.useFakeTimers()
+    const storage = memoryDraftStorage()
+    const set = vi.spyOn(storage, 'set')
+    const state = await renderProfiles({ storage, delay: 300 })
+    expect(state.current.isLoaded).toBe(true)
+
+    type(queryAll('input[name="profile[0][name]"]')[0], 'Jo')
+    type(queryAll('input[name="profile[0][name]"]')[0], 'John')
+    await act(async () => vi.advanceTimersByTime(299))
+    expect(set).not.toHaveBeenCalled()
+
+    await act(async () => vi.advanceTimersByTime(1))
+    expect(set).toHaveBeenCalledTimes(1)
+    expect((await storage.get('profiles'))?.data).toEqual({ profile: [{ name: 'John' }] })
+    expect(state.current.savedAt).toEqual(expect.any(Number))
+  })
+
+  it('should save when rows are added', async () => {
+    vi.useFakeTimers()
+    const storage = memoryDraftStorage()
+    await renderProfiles({ storage })
+
+    await act(async () => query('button').click())
+    await act(async () => vi.advanceTimersByTime(500))
+
+    expect((await storage.get('profiles'))?.data).toEqual({ profile: [{ name: '' }, { name: '' }] })
+  })
+
+  it('should restore a draft into recreated rows', async () => {
+    const storage = memoryDraftStorage()
+    await storage.set('profiles', stored({ profile: [{ name: 'John' }, { name: 'Jane' }, { name: '' }] }))
+
+    const state = await renderProfiles({ storage })
+
+    expect(queryAll('input[name$="[name]"]').map(input => [input.name, input.value])).toEqual([
+      ['profile[0][name]', 'John'],
+      ['profile[1][name]', 'Jane'],
+      ['profile[2][name]', ''],
+    ])
+    expect(state.current.savedAt).toBe(1000)
+    expect(state.current.notice).toBeNull()
+  })
+
+  it('should tell the user to choose files again', async () => {
+    const storage = memoryDraftStorage()
+    const avatar = { name: 'avatar.svg', size: 6, type: 'image/svg+xml', lastModified: 1000 }
+    await storage.set('profiles', { ...stored({ profile: [{ name: 'John' }] }), files: { avatar: [avatar] } })
+
+    const state = await renderProfiles({ storage })
+
+    expect(state.current.notice).toBe('Files are not saved with drafts. Please choose avatar.svg again.')
+  })
+
+  it('should migrate drafts from older versions and discard the rest', async () => {
+    const storage = memoryDraftStorage()
+    await storage.set('profiles', stored({ people: [{ name: 'John' }] }, 1))
+
+    await renderProfiles({
+      storage,
+      version: 2,
+      migrate: ({ people, ...data }) => ({ ...data, profile: people }),
+    })
+    expect(queryAll('input[name$="[name]"]').map(input => input.value)).toEqual(['John'])
+    unmount()
+
+    await storage.set('profiles', stored({ profile: [{ name: 'John' }] }, 3))
+    await renderProfiles({ storage, version: 2 })
+    expect(queryAll('input[name$="[name]"]').map(input => input.value)).toEqual([''])
+    expect(await storage.get('profiles')).toBeNull()
+  })
+
+  it('should delete the draft when the form is reset or cleared', async () => {
+    const storage = memoryDraftStorage()
+    await storage.set('profiles', stored({ profile: [{ name: 'John' }] }))
+    const state = await renderProfiles({ storage })
+
+    await act(async () => query<HTMLFormElement>('form').reset())
+    expect(await storage.get('profiles')).toBeNull()
+
+    await act(() => state.current.save())
+    expect(await storage.get('profiles')).not.toBeNull()
+    await act(() => state.current.clear())
+    expect(await storage.get('profiles')).toBeNull()
+    expect(state.current.savedAt).toBeNull()
+  })
+
+  it('should report a form that cannot be saved and a draft that cannot be deleted', async () => {
+    const storage = memoryDraftStorage()
+    const failure = new Error('Storage is unavailable')
+    vi.spyOn(storage, 'remove').mockRejectedValue(failure)
+    const state = await renderProfiles({ storage })
+
+    const input = document.createElement('input')
+    input.name = 'a'.repeat(2000)
+    query('form').appendChild(input)
+    await act(() => state.current.save())
+    expect(state.current.saveError).toMatchObject({ code: 'MAX_FIELD_LENGTH' })
+    expect(await storage.get('profiles')).toBeNull()
+
+    input.remove()
+    await act(() => state.current.save())
+    expect(state.current.saveError).toBeNull()
+
+    await act(async () => query<HTMLFormElement>('form').reset())
+    expect(state.current.saveError).toBe(failure)
+  })
+})
@@ -0,0 +1,194 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react'
+
+import {
+  countDraftRows,
+  describeSkippedFiles,
+  DraftStorage,
+  DraftVersionOptions,
+  localDraftStorage,
+  migrateDraft,
+  restoreDraft,
+  snapshotForm,
+  StoredDraft,
+} from '../utils/draftUtils'
+
+/**
+ * Type definitions for the draft hook
+ */
+export interface UseFormDraftOptions extends DraftVersionOptions {
+  // Storage key of the draft, unique per form
+  key: string
+  // Where the draft is kept (default: localDraftStorage())
+  storage?: DraftStorage
+  // Milliseconds to wait after the last change before saving (default: 500)
+  delay?: number
+  // Restore the stored draft when the form mounts (default: true)
+  restoreOnMount?: boolean
+}
+
+export interface FormDraftState {
+  // Whether the stored draft has been looked up; autosave starts after that
+  isLoaded: boolean
+  // When the draft was last saved or restored, in milliseconds since the epoch, or null if there is none
+  savedAt: number | null
+  // Tells the user which files to choose again after a restore, if any
+  notice: string | null
+  // Row counts of the restored draft by field name, for the `count` option of useFieldArray
+  rowCounts: Record<string, number>
+  // The error from the last failed save, or from deleting the draft on reset, if any
+  saveError: unknown
+  // Saves the form now instead of waiting for the debounce
+  save: () => Promise<void>
+  // Restores the stored draft; resolves to false if there is none
+  restore: () => Promise<boolean>
+  // Deletes the stored draft, e.g. after a successful submit
+  clear: () => Promise<void>
+}
+
+interface PendingRestore {
+  draft: StoredDraft
+  resolve: () => void
+}
+
+/**
+ * Autosaves a form as a draft and restores it after a reload. Changes are saved
+ * after a pause in typing, and also when rows are added or removed; resetting the
+ * form deletes the draft.
+ * @param formRef - The form, e.g. `formProps.ref` from useFormData
+ * @param options - The storage key, backend, debounce delay and schema version
+ * @returns The draft state and the functions that save, restore and clear it
+ */
+export function useFormDraft(formRef: RefObject<HTMLFormElement | null>, options: UseFormDraftOptions): FormDraftState {
+  const optionsRef = useRef(options)
+  const storageRef = useRef<DraftStorage | null>(null)
+  const loadedRef = useRef(false)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [rowCounts, setRowCounts] = useState<Record<string, number>>({})
+  const [saveError, setSaveError] = useState<unknown>(null)
+  const [pending, setPending] = useState<PendingRestore | null>(null)
+
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  // The default backend is created on first use, so rendering never touches window
+  const getStorage = useCallback((): DraftStorage => {
+    if (optionsRef.current.storage) return optionsRef.current.storage
+    storageRef.current ??= localDraftStorage()
+    return storageRef.current
+  }, [])
+
+  const saveForm = useCallback(
+    async (form: HTMLFormElement) => {
+      try {
+        const draft = snapshotForm(form, optionsRef.current.version)
+        await getStorage().set(optionsRef.current.key, draft)
+        setSavedAt(draft.savedAt)
+        setSaveError(null)
+      } catch (error) {
+        // e.g. a field past the parser limits or a full localStorage
+        setSaveError(error)
+      }
+    },
+    [getStorage]
+  )
+
+  const save = useCallback(async () => {
+    if (formRef.current) await saveForm(formRef.current)
+  }, [formRef, saveForm])
+
+  const clear = useCallback(async () => {
+    await getStorage().remove(optionsRef.current.key)
+    setSavedAt(null)
+    setNotice(null)
+  }, [getStorage])
+
+  const restore = useCallback(async () => {
+    const stored = await getStorage().get(optionsRef.current.key)
+    const draft = stored && migrateDraft(stored, optionsRef.current)
+    if (!draft) {
+      // Drafts that cannot be migrated are never useful again
+      if (stored) await getStorage().remove(optionsRef.current.key)
+      return false
+    }
+
+    // Field arrays resize to the new counts in the same render, before the values are filled in
+    await new Promise<void>(resolve => {
+      setRowCounts(countDraftRows(draft.data))
+      setPending({ draft, resolve })
+    })
+    setSavedAt(draft.savedAt)
+    return true
+  }, [getStorage])
+
+  useEffect(() => {
+    if (!pending) return
+    if (formRef.current) setNotice(describeSkippedFiles(restoreDraft(formRef.current, pending.draft).skippedFiles))
+    setPending(null)
+    pending.resolve()
+  }, [formRef, pending])
+
+  // Looks up the stored draft once, before anything is saved over it
+  useEffect(() => {
+    let active = true
+    const load = optionsRef.current.restoreOnMount === false ? Promise.resolve(false) : restore()
+    load
+      .catch(() => false)
+      .then(() => {
+        if (!active) return
+        loadedRef.current = true
+        setIsLoaded(true)
+      })
+    return () => {
+      active = false
+    }
+  }, [restore])
+
+  useEffect(() => {
+    const form = formRef.current
+    if (!form) return
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const schedule = () => {
+      if (!loadedRef.current) return
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        timer = undefined
+        void saveForm(form)
+      }, optionsRef.current.delay ?? 500)
+    }
+    const flush = () => {
+      if (timer === undefined || !loadedRef.current) return
+      clearTimeout(timer)
+      timer = undefined
+      void saveForm(form)
+    }
+    const onReset = () => {
+      clearTimeout(timer)
+      // The reset has already happened, so a draft that cannot be deleted is reported like a failed save
+      clear().catch(setSaveError)
+    }
+
+    // Rows added or removed by field arrays change the form without an input event
+    const observer = new MutationObserver(schedule)
+    observer.observe(form, { childList: true, subtree: true })
+    form.addEventListener('input', schedule)
+    form.addEventListener('change', schedule)
+    form.addEventListener('reset', onReset)
+    window.addEventListener('pagehide', flush)
+
+    return () => {
+      observer.disconnect()
+      form.removeEventListener('input', schedule)
+      form.removeEventListener('change', schedule)
+      form.removeEventListener('reset', onReset)
+      window.removeEventListener('pagehide', flush)
+      // The form is captured here since the ref is already detached on unmount
+      flush()
+    }
+  }, [formRef, saveForm, clear])
+
+  return { isLoaded, savedAt, notice, rowCounts, saveError, save, restore, clear }
+}
@@ -0,0 +1,70 @@
+import { act, ReactNode } from 'react'
+import { createRoot, Root } from 'react-dom/client'
+import { afterEach } from 'vitest'
+
+// The element rendered by the current test, mounted in a container attached to the document
+let root: Root | null = null
+let container: HTMLDivElement | null = null
+
+/**
+ * Unmounts the rendered element and removes its container
+ */
+export function unmount(): void {
+  act(() => root?.unmount())
+  container?.remove()
+  root = null
+  container = null
+}
+
+afterEach(unmount)
+
+// Helper function to mount a fresh container for the next element
+function mount(): Root {
+  unmount()
+  container = document.createElement('div')
+  document.body.appendChild(container)
+  root = createRoot(container)
+  return root
+}
+
+/**
+ * Renders a React element into a fresh container
+ * @param element - The element to render
+ * @returns The container
+ */
+export function render(element: ReactNode): HTMLDivElement {
+  const target = mount()
+  act(() => target.render(element))
+  return container as HTMLDivElement
+}
+
+/**
+ * Renders a React element and waits for the promises its effects start, e.g. loading a stored draft
+ * @param element - The element to render
+ * @returns The container
+ */
+export async function renderAsync(element: ReactNode): Promise<HTMLDivElement> {
+  const target = mount()
+  await act(async () => target.render(element))
+  return container as HTMLDivElement
+}
+
+// Finds the first element in the rendered container that matches a selector
+export const query = <E extends Element = HTMLElement>(selector: string): E => container?.querySelector(selector) as E
+
+// Finds every element in the rendered container that matches a selector
+export const queryAll = <E extends Element = HTMLInputElement>(selector: string): E[] =>
+  Array.from(container?.querySelectorAll<E>(selector) ?? [])
+
+/**
+ * Types into an input the way React sees user input, through the native value setter
+ * @param input - The input
+ * @param value - The new value
+ */
+export function type(input: HTMLInputElement, value: string): void {
+  const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set
+  act(() => {
+    setValue?.call(input, value)
+    input.dispatchEvent(new Event('input', { bubbles: true }))
+  })
+}
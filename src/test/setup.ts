@@ -1,3 +1,6 @@
 import '@testing-library/jest-dom'
 
 // Add any global test setup here
+
+// Lets tests render with react-dom and wrap updates in act()
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true })
@@ -0,0 +1,38 @@
+import { compileFormDataParser, ProcessedFormData, ProcessFormDataOptions } from './formUtils'
+
+/**
+ * Options shared by everything that parses a submitted form
+ */
+export interface ParseFormOptions<T = ProcessedFormData> extends ProcessFormDataOptions {
+  // Converts the submitted FormData, e.g. with parseWithSchema (default: processFormData with these options)
+  parse?: (formData: FormData) => T
+}
+
+/**
+ * Builds the parse function described by the options, compiling processFormData options
+ * once so every form parsed with it skips the setup
+ * @param options - A custom parser or processFormData options
+ * @returns A function from FormData to the parsed value
+ */
+export function resolveFormParser<T = ProcessedFormData>(options: ParseFormOptions<T> = {}): (formData: FormData) => T {
+  const { parse, ...processOptions } = options
+  if (parse) return parse
+  const processor = compileFormDataParser(processOptions)
+  return formData => processor.process(formData) as T
+}
+
+/**
+ * Wraps an action so it receives the parsed form alongside the raw FormData. The result has
+ * the `(previousState, formData)` signature of React 19 form actions, so it can be passed to
+ * `useActionState` on the client or exported as a server action, with the same parsing either way.
+ * @param action - Handles the parsed data and returns the next state
+ * @param options - A custom parser or processFormData options
+ * @returns The form action
+ */
+export function withFormData<State, T = ProcessedFormData>(
+  action: (previousState: Awaited<State>, data: T, formData: FormData) => State | Promise<State>,
+  options: ParseFormOptions<T> = {}
+): (previousState: Awaited<State>, formData: FormData) => State | Promise<State> {
+  const parse = resolveFormParser(options)
+  return (previousState, formData) => action(previousState, parse(formData), formData)
+}
@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest'
+
+import { CliIo, detectFormat, EXIT_CODES, HELP, parseCliArgs, runCli } from './cliUtils'
+
+// Helper function to run the tool against in-memory files, capturing its output
+async function run(args: string[], files: Record<string, string | Uint8Array> = {}) {
+  let stdout = ''
+  let stderr = ''
+  const io: CliIo = {
+    read: async path => {
+      const content = files[path ?? '-']
+      if (content === undefined) throw new Error('no such file')
+      return typeof content === 'string' ? new TextEncoder().encode(content) : content
+    },
+    stdout: text => {
+      stdout += text
+    },
+    stderr: text => {
+      stderr += text
+    },
+  }
+  const code = await runCli(args, io)
+  return { code, stdout, stderr, json: () => JSON.parse(stdout) }
+}
+
+describe('parseCliArgs', () => {
+  it('should read the command, file and flags', () => {
+    expect(
+      parseCliArgs(['flatten', '--index-style=brackets', '--output', 'urlencoded', '--skip-nulls', 'data.json'])
+    ).toMatchObject({
+      command: 'flatten',
+      file: 'data.json',
+      output: 'urlencoded',
+      flatten: { indexStyle: 'brackets', skipNulls: true },
+    })
+  })
+
+  it('should map parser flags to processFormData options', () => {
+    expect(
+      parseCliArgs(['--path-syntax', 'dot', '--empty-strings', 'null', '--max-depth', '3', '--unsafe', '--trim', '-'])
+    ).toMatchObject({
+      command: 'parse',
+      file: null,
+      parse: { pathSyntax: 'dot', emptyStrings: 'null', maxDepth: 3, hardened: false, trimStrings: true },
+    })
+    expect(parseCliArgs([])?.parse).toEqual({})
+    expect(parseCliArgs(['--help'])).toBeNull()
+  })
+
+  it('should reject unknown flags and invalid values', async () => {
+    expect(await run(['--bogus'])).toMatchObject({ code: EXIT_CODES.usage, stderr: 'error: Unknown option --bogus\n' })
+    expect((await run(['--empty-strings', 'maybe'])).stderr).toBe(
+      'error: --empty-strings must be one of keep, drop, null\n'
+    )
+    expect((await run(['--max-keys', '-1'])).code).toBe(EXIT_CODES.usage)
+    expect((await run(['--format'])).code).toBe(EXIT_CODES.usage)
+    expect((await run(['a.txt', 'b.txt'])).code).toBe(EXIT_CODES.usage)
+  })
+})
+
+describe('detectFormat', () => {
+  it('should tell formats apart by their first characters', () => {
+    expect(detectFormat(' {"a": 1}')).toBe('json')
+    expect(detectFormat('--boundary\r\n')).toBe('multipart')
+    expect(detectFormat('a=1&b=2')).toBe('urlencoded')
+  })
+})
+
+describe('runCli', () => {
+  it('should print help', async () => {
+    expect(await run(['-h'])).toMatchObject({ code: EXIT_CODES.ok, stdout: HELP })
+  })
+
+  it('should parse urlencoded input from stdin', async () => {
+    const result = await run(['--indent', '0'], { '-': '?user[name]=John&tags[]=a&tags[]=b\n' })
+
+    expect(result.code).toBe(EXIT_CODES.ok)
+    expect(result.stdout).toBe('{"user":{"name":"John"},"tags":["a","b"]}\n')
+  })
+
+  it('should parse multipart dumps, with or without carriage returns', async () => {
+    const dump = [
+      '--XYZ',
+      'Content-Disposition: form-data; name="profile[0][name]"',
+      '',
+      'John',
+      '--XYZ',
+      'Content-Disposition: form-data; name="profile[0][cv]"; filename="cv.txt"',
+      'Content-Type: text/plain',
+      '',
+      'hello',
+      '--XYZ--',
+      '',
+    ]
+    const expected = {
+      profile: [
+        { name: 'John', cv: { name: 'cv.txt', size: 5, type: 'text/plain', lastModified: expect.any(Number) } },
+      ],
+    }
+
+    expect((await run(['body.txt'], { 'body.txt': dump.join('\r\n') })).json()).toEqual(expected)
+    expect((await run(['body.txt'], { 'body.txt': dump.join('\n') })).json()).toEqual(expected)
+    expect(
+      (await run(['--format', 'multipart', '--boundary', 'XYZ'], { '-': `preamble\r\n${dump.join('\r\n')}` })).json()
+    ).toEqual(expected)
+  })
+
+  it('should keep binary file parts byte for byte when restoring carriage returns', async () => {
+    const encode = (text: string) => new TextEncoder().encode(text)
+    // Invalid UTF-8 and bare line feeds inside the file, which the restored line breaks must not touch
+    const file = new Uint8Array([0xff, 0x0a, 0x00, 0x80, 0x0a, 0x0a])
+    const body = new Uint8Array([
+      ...encode('--XYZ\nContent-Disposition: form-data; name="logo"; filename="logo.bin"\n'),
+      ...encode('Content-Type: application/octet-stream\n\n'),
+      ...file,
+      ...encode('\n--XYZ\nContent-Disposition: form-data; name="name"\n\nJohn\n--XYZ--\n'),
+    ])
+
+    expect((await run(['body.bin'], { 'body.bin': body })).json()).toEqual({
+      logo: { name: 'logo.bin', size: file.length, type: 'application/octet-stream', lastModified: expect.any(Number) },
+      name: 'John',
+    })
+  })
+
+  it('should parse flat JSON', async () => {
+    const result = await run(['--path-syntax', 'dot'], { '-': '{"user.name": "John", "user.tags": ["a"]}' })
+
+    expect(result.json()).toEqual({ user: { name: 'John', tags: ['a'] } })
+  })
+
+  it('should read request bodies from HAR files', async () => {
+    const har = JSON.stringify({
+      log: {
+        entries: [
+          { request: { method: 'GET', url: 'https://example.com/' } },
+          {
+            request: {
+              postData: { mimeType: 'application/x-www-form-urlencoded', text: 'user%5Bname%5D=John' },
+            },
+          },
+          {
+            request: {
+              postData: {
+                mimeType: 'multipart/form-data; boundary=abc',
+                params: [
+                  { name: 'user[name]', value: 'Jane' },
+                  { name: 'avatar', fileName: 'a.png', contentType: 'image/png' },
+                ],
+              },
+            },
+          },
+        ],
+      },
+    })
+
+    const first = await run(['capture.har'], { 'capture.har': har })
+    expect(first.json()).toEqual({ user: { name: 'John' } })
+    expect(first.stderr).toBe('note: 2 entries have a request body; reading entry 1 (see --entry)\n')
+
+    expect((await run(['--entry', '2', 'capture.har'], { 'capture.har': har })).json()).toEqual({
+      user: { name: 'Jane' },
+      avatar: { name: 'a.png', size: 0, type: 'image/png', lastModified: expect.any(Number) },
+    })
+    expect(await run(['--entry', '0', 'capture.har'], { 'capture.har': har })).toMatchObject({
+      code: EXIT_CODES.invalid,
+      stderr: 'error: HAR entry 0 has no request body\n',
+    })
+  })
+
+  it('should flatten nested JSON into bracket keys', async () => {
+    const input = { '-': '{"user": {"name": "John", "tags": ["a", "b"], "note": null}}' }
+
+    expect((await run(['flatten'], input)).json()).toEqual({
+      'user[name]': 'John',
+      'user[tags][0]': 'a',
+      'user[tags][1]': 'b',
+      'user[note]': '',
+    })
+    expect((await run(['flatten', '--index-style', 'brackets', '--skip-nulls'], input)).json()).toEqual({
+      'user[name]': 'John',
+      'user[tags][]': ['a', 'b'],
+    })
+    expect((await run(['flatten', '--output', 'urlencoded', '--skip-nulls'], input)).stdout).toBe(
+      'user%5Bname%5D=John&user%5Btags%5D%5B0%5D=a&user%5Btags%5D%5B1%5D=b\n'
+    )
+  })
+
+  it('should exit with distinct codes for rejected input and warnings', async () => {
+    expect(await run(['--max-depth', '1'], { '-': 'a[b][c]=1' })).toMatchObject({
+      code: EXIT_CODES.invalid,
+      stdout: '',
+      stderr: expect.stringContaining('[MAX_DEPTH]'),
+    })
+    expect((await run([], { '-': '{"a":' })).code).toBe(EXIT_CODES.invalid)
+    expect((await run(['missing.txt'])).code).toBe(EXIT_CODES.usage)
+
+    const conflict = { '-': 'a=1&a[b]=2' }
+    expect(await run([], conflict)).toMatchObject({
+      code: EXIT_CODES.ok,
+      stderr: 'warning: "a" was submitted both as a value and with nested fields [PATH_CONFLICT]\n',
+    })
+    expect(await run(['--strict'], conflict)).toMatchObject({ code: EXIT_CODES.warnings, stdout: '' })
+  })
+})
@@ -0,0 +1,496 @@
+import { fileReplacer } from './fileUtils'
+import { FlattenOptions, flattenToEntries, IndexStyle } from './flattenUtils'
+import { FormDataInput, FormDataParseError, processFormDataWithDiagnostics, ProcessFormDataOptions } from './formUtils'
+import { getMultipartBoundary, MultipartLimits, memoryStorage, parseMultipart } from './multipartUtils'
+import { getBodyType } from './serverUtils'
+
+/**
+ * Type definitions for the command-line tool
+ */
+export type InputFormat = 'auto' | 'urlencoded' | 'multipart' | 'har' | 'json'
+
+export type OutputFormat = 'json' | 'urlencoded'
+
+export interface CliOptions {
+  command: 'parse' | 'flatten'
+  // Input file, or null for stdin
+  file: string | null
+  format: InputFormat
+  // Multipart boundary, when the body does not start with one
+  boundary?: string
+  // Index into `log.entries` of a HAR file
+  entry?: number
+  // Exit with EXIT_CODES.warnings when the parser reports duplicate keys or conflicts
+  strict: boolean
+  // Spaces of JSON indentation; 0 prints one line
+  indent: number
+  output: OutputFormat
+  parse: ProcessFormDataOptions & Partial<MultipartLimits>
+  flatten: FlattenOptions
+}
+
+// Where the tool reads and writes, so it runs the same under Node and in tests
+export interface CliIo {
+  // Reads a file, or stdin when the path is null
+  read: (path: string | null) => Promise<Uint8Array>
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+export const EXIT_CODES = {
+  ok: 0,
+  // The parser rejected the input, e.g. a limit was exceeded or the body is malformed
+  invalid: 1,
+  // Unknown flags or values, or the input could not be read
+  usage: 2,
+  // The parser reported duplicate keys or conflicts and `--strict` was given
+  warnings: 3,
+} as const
+
+export const HELP = `Usage: form-data-parser [parse|flatten] [options] [file]
+
+Reads from stdin when no file (or -) is given.
+
+Commands:
+  parse                      Print urlencoded, multipart, HAR or flat JSON input as nested JSON (default)
+  flatten                    Print nested JSON as bracket keys
+
+Input:
+  --format <format>          auto, urlencoded, multipart, har or json (default: auto)
+  --boundary <boundary>      Multipart boundary, when the body does not start with one
+  --entry <index>            HAR entry to read (default: the first with a request body)
+
+Parser options:
+  --path-syntax <syntax>     bracket, dot or mixed (default: bracket)
+  --empty-strings <policy>   keep, drop or null
+  --repeated-keys <policy>   array, first, last or error (default: array)
+  --key-transform <case>     camel, snake or kebab
+  --conflicts <policy>       prefer-container, prefer-scalar, merge or error
+  --mixed-keys <policy>      object or error
+  --leading-zeros <policy>   object or index
+  --dangerous-keys <policy>  strip or error
+  --trim                     Trim whitespace from values
+  --no-compact-arrays        Keep gaps in arrays as null
+  --prune-empty-objects      Remove empty objects at every level
+  --max-depth <n>, --max-keys <n>, --max-array-index <n>, --max-field-length <n>
+  --max-field-size <bytes>, --max-file-size <bytes>, --max-total-file-size <bytes>
+  --unsafe                   Disable the limits and prototype pollution checks
+  --strict                   Exit with code 3 on duplicate keys and conflicts
+
+Output:
+  --output <format>          json or urlencoded, for flatten (default: json)
+  --index-style <style>      indices, brackets or repeat, for flatten (default: indices)
+  --skip-nulls               Omit null values, for flatten
+  --indent <n>               JSON indentation (default: 2; 0 for one line)
+  -h, --help                 Show this help
+
+Exit codes: 0 success, 1 input rejected, 2 usage error, 3 warnings with --strict
+`
+
+/**
+ * An error that ends the tool with a specific exit code
+ */
+class CliError extends Error {
+  readonly exitCode: number
+
+  constructor(exitCode: number, message: string) {
+    super(message)
+    this.name = 'CliError'
+    this.exitCode = exitCode
+  }
+}
+
+// Flags that take a value, with their allowed values where the set is closed
+const VALUE_FLAGS: Record<string, readonly string[] | null> = {
+  format: ['auto', 'urlencoded', 'multipart', 'har', 'json'],
+  boundary: null,
+  entry: null,
+  'path-syntax': ['bracket', 'dot', 'mixed'],
+  'empty-strings': ['keep', 'drop', 'null'],
+  'repeated-keys': ['array', 'first', 'last', 'error'],
+  'key-transform': ['camel', 'snake', 'kebab'],
+  conflicts: ['prefer-container', 'prefer-scalar', 'merge', 'error'],
+  'mixed-keys': ['object', 'error'],
+  'leading-zeros': ['object', 'index'],
+  'dangerous-keys': ['strip', 'error'],
+  'max-depth': null,
+  'max-keys': null,
+  'max-array-index': null,
+  'max-field-length': null,
+  'max-field-size': null,
+  'max-file-size': null,
+  'max-total-file-size': null,
+  output: ['json', 'urlencoded'],
+  'index-style': ['indices', 'brackets', 'repeat'],
+  indent: null,
+}
+
+const BOOLEAN_FLAGS = new Set(['trim', 'no-compact-arrays', 'prune-empty-objects', 'unsafe', 'strict', 'skip-nulls'])
+
+// Limits by flag, all of which take a non-negative integer
+const LIMIT_FLAGS = {
+  'max-depth': 'maxDepth',
+  'max-keys': 'maxKeys',
+  'max-array-index': 'maxArrayIndex',
+  'max-field-length': 'maxFieldLength',
+  'max-field-size': 'maxFieldSize',
+  'max-file-size': 'maxFileSize',
+  'max-total-file-size': 'maxTotalFileSize',
+} as const
+
+/**
+ * Reads a flag value as a non-negative integer
+ * @param flag - The flag name, for the error message
+ * @param value - The value as given
+ * @returns The number
+ * @throws CliError if the value is not a non-negative integer
+ */
+function toCount(flag: string, value: string): number {
+  if (!/^\d+$/.test(value)) throw new CliError(EXIT_CODES.usage, `--${flag} expects a non-negative integer`)
+  return Number(value)
+}
+
+/**
+ * Parses the command-line arguments
+ * @param args - The arguments after the program name
+ * @returns The options, or null if help was requested
+ * @throws CliError for unknown flags, missing or invalid values and extra arguments
+ */
+export function parseCliArgs(args: string[]): CliOptions | null {
+  const values: Record<string, string> = {}
+  const booleans = new Set<string>()
+  const positional: string[] = []
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+    if (arg === '-h' || arg === '--help') return null
+
+    if (!arg.startsWith('--')) {
+      positional.push(arg)
+      continue
+    }
+
+    const separator = arg.indexOf('=')
+    const flag = arg.substring(2, separator === -1 ? undefined : separator)
+    if (BOOLEAN_FLAGS.has(flag) && separator === -1) {
+      booleans.add(flag)
+      continue
+    }
+    if (!Object.prototype.hasOwnProperty.call(VALUE_FLAGS, flag))
+      throw new CliError(EXIT_CODES.usage, `Unknown option --${flag}`)
+
+    const value = separator === -1 ? args[++index] : arg.substring(separator + 1)
+    if (value === undefined) throw new CliError(EXIT_CODES.usage, `--${flag} expects a value`)
+    const allowed = VALUE_FLAGS[flag]
+    if (allowed && !allowed.includes(value)) {
+      throw new CliError(EXIT_CODES.usage, `--${flag} must be one of ${allowed.join(', ')}`)
+    }
+    values[flag] = value
+  }
+
+  const command = positional[0] === 'parse' || positional[0] === 'flatten' ? positional.shift() : 'parse'
+  if (positional.length > 1) throw new CliError(EXIT_CODES.usage, `Unexpected argument ${positional[1]}`)
+  const file = positional[0] === undefined || positional[0] === '-' ? null : positional[0]
+
+  const parse: CliOptions['parse'] = {
+    pathSyntax: values['path-syntax'] as ProcessFormDataOptions['pathSyntax'],
+    emptyStrings: values['empty-strings'] as ProcessFormDataOptions['emptyStrings'],
+    repeatedKeys: values['repeated-keys'] as ProcessFormDataOptions['repeatedKeys'],
+    keyTransform: values['key-transform'] as ProcessFormDataOptions['keyTransform'],
+    conflicts: values.conflicts as ProcessFormDataOptions['conflicts'],
+    mixedKeys: values['mixed-keys'] as ProcessFormDataOptions['mixedKeys'],
+    leadingZeros: values['leading-zeros'] as ProcessFormDataOptions['leadingZeros'],
+    dangerousKeys: values['dangerous-keys'] as ProcessFormDataOptions['dangerousKeys'],
+    trimStrings: booleans.has('trim') || undefined,
+    compactArrays: booleans.has('no-compact-arrays') ? false : undefined,
+    pruneEmptyObjects: booleans.has('prune-empty-objects') || undefined,
+    hardened: booleans.has('unsafe') ? false : undefined,
+  }
+  Object.entries(LIMIT_FLAGS).forEach(([flag, option]) => {
+    if (values[flag] !== undefined) parse[option] = toCount(flag, values[flag])
+  })
+
+  return {
+    command: command as CliOptions['command'],
+    file,
+    format: (values.format ?? 'auto') as InputFormat,
+    boundary: values.boundary,
+    entry: values.entry === undefined ? undefined : toCount('entry', values.entry),
+    strict: booleans.has('strict'),
+    indent: values.indent === undefined ? 2 : toCount('indent', values.indent),
+    output: (values.output ?? 'json') as OutputFormat,
+    // Options left unset keep the parser's defaults
+    parse: Object.fromEntries(Object.entries(parse).filter(([, value]) => value !== undefined)),
+    flatten: {
+      indexStyle: values['index-style'] as IndexStyle | undefined,
+      skipNulls: booleans.has('skip-nulls'),
+      keyTransform: parse.keyTransform,
+    },
+  }
+}
+
+/**
+ * Guesses the format of the input from its first characters
+ * @param text - The input
+ * @returns json for objects (including HAR files), multipart for bodies that start with a boundary,
+ * and urlencoded otherwise
+ */
+export function detectFormat(text: string): Exclude<InputFormat, 'auto'> {
+  const start = text.trimStart()
+  if (start.startsWith('{')) return 'json'
+  if (start.startsWith('--')) return 'multipart'
+  return 'urlencoded'
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Parses JSON input that must be an object
+ * @param text - The input
+ * @returns The object
+ * @throws FormDataParseError with code `MALFORMED_JSON` otherwise
+ */
+function parseJsonObject(text: string): Record<string, unknown> {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    throw new FormDataParseError('MALFORMED_JSON', '', `The input is not valid JSON: ${(error as Error).message}`)
+  }
+  if (!isObject(json)) throw new FormDataParseError('MALFORMED_JSON', '', 'The JSON input must be an object')
+  return json
+}
+
+/**
+ * Restores the carriage returns a multipart dump lost, e.g. when copied from a log or an
+ * editor. Only boundary and header lines and the line break before each boundary need
+ * them; part bodies are copied byte for byte, so binary files keep their contents.
+ * @param bytes - The body with bare line feeds
+ * @param boundary - The boundary
+ * @returns The body with CRLF line breaks around the part bodies
+ */
+function restoreCarriageReturns(bytes: Uint8Array, boundary: string): Uint8Array {
+  const delimiter = new TextEncoder().encode(`--${boundary}`)
+  const isDelimiterLine = (start: number, end: number): boolean =>
+    end - start >= delimiter.length &&
+    delimiter.every((byte, index) => bytes[start + index] === byte) &&
+    /^(--)?[ \t]*$/.test(new TextDecoder().decode(bytes.subarray(start + delimiter.length, end)))
+
+  // Line breaks are bare line feeds, so each line runs up to the next one
+  const lines: Array<[number, number]> = []
+  for (let start = 0; start <= bytes.length;) {
+    const end = bytes.indexOf(0x0a, start)
+    lines.push([start, end === -1 ? bytes.length : end])
+    if (end === -1) break
+    start = end + 1
+  }
+
+  const chunks: Uint8Array[] = []
+  const CRLF = new Uint8Array([0x0d, 0x0a])
+  const LF = CRLF.subarray(1)
+  let inBody = false
+  lines.forEach(([start, end], index) => {
+    const isDelimiter = isDelimiterLine(start, end)
+    if (isDelimiter) inBody = false
+    chunks.push(bytes.subarray(start, end))
+    if (index === lines.length - 1) return
+
+    const next = lines[index + 1]
+    chunks.push(!inBody || isDelimiterLine(next[0], next[1]) ? CRLF : LF)
+    // The blank line after the headers starts the body
+    if (!isDelimiter && !inBody && start === end) inBody = true
+  })
+
+  const output = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset)
+    return offset + chunk.length
+  }, 0)
+  return output
+}
+
+/**
+ * Reads a multipart dump into entries, keeping files in memory
+ * @param bytes - The body
+ * @param boundary - The boundary, or undefined to read it from the first line
+ * @param options - Size limits and parser options
+ * @returns The fields and files in body order
+ * @throws CliError if no boundary is found
+ */
+async function readMultipart(
+  bytes: Uint8Array,
+  boundary: string | undefined,
+  options: CliOptions['parse']
+): Promise<Array<[string, string | File]>> {
+  const text = new TextDecoder().decode(bytes)
+  const resolved = boundary ?? /^--([^\r\n]+?)[ \t]*\r?\n/.exec(text.trimStart())?.[1]
+  if (!resolved) throw new CliError(EXIT_CODES.usage, 'No multipart boundary found; pass --boundary')
+
+  // Dumps copied from logs or editors often lose the carriage returns that multipart requires;
+  // the first boundary line tells, since file contents may hold either kind of line break
+  const first = text.indexOf(`--${resolved}`)
+  if (first !== -1 && !/^[^\n]*\r\n/.test(text.slice(first))) bytes = restoreCarriageReturns(bytes, resolved)
+
+  const entries: Array<[string, string | File]> = []
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes)
+      controller.close()
+    },
+  })
+  for await (const part of parseMultipart(stream, { ...options, boundary: resolved })) {
+    entries.push([part.name, part.kind === 'file' ? ((await memoryStorage(part)) as File) : part.value])
+  }
+  return entries
+}
+
+interface HarParam {
+  name: string
+  value?: string
+  fileName?: string
+  contentType?: string
+}
+
+interface HarPostData {
+  mimeType?: string
+  text?: string
+  params?: HarParam[]
+}
+
+/**
+ * Picks the request body of a HAR entry
+ * @param har - The parsed HAR file
+ * @param entry - The entry index, or undefined for the first entry with a body
+ * @param io - For the note when several entries have a body
+ * @returns The post data
+ * @throws CliError if the entry does not exist or has no body
+ */
+function selectHarBody(har: Record<string, unknown>, entry: number | undefined, io: CliIo): HarPostData {
+  const entries = isObject(har.log) && Array.isArray(har.log.entries) ? har.log.entries : []
+  const bodyOf = (item: unknown): HarPostData | undefined =>
+    isObject(item) && isObject(item.request) && isObject(item.request.postData)
+      ? (item.request.postData as HarPostData)
+      : undefined
+
+  if (entry !== undefined) {
+    if (entry >= entries.length) throw new CliError(EXIT_CODES.usage, `The HAR file has ${entries.length} entries`)
+    const body = bodyOf(entries[entry])
+    if (!body) throw new CliError(EXIT_CODES.invalid, `HAR entry ${entry} has no request body`)
+    return body
+  }
+
+  const withBody = entries.map((item, index) => [index, bodyOf(item)] as const).filter(([, body]) => body)
+  if (withBody.length === 0) throw new CliError(EXIT_CODES.invalid, 'No HAR entry has a request body')
+  if (withBody.length > 1) {
+    io.stderr(`note: ${withBody.length} entries have a request body; reading entry ${withBody[0][0]} (see --entry)\n`)
+  }
+  return withBody[0][1] as HarPostData
+}
+
+/**
+ * Converts the input into something processFormData accepts
+ * @param bytes - The raw input
+ * @param options - The input format and parser options
+ * @param io - For notes about the input
+ * @returns The parser input
+ * @throws CliError or FormDataParseError if the input cannot be read as the format
+ */
+async function readInput(bytes: Uint8Array, options: CliOptions, io: CliIo): Promise<FormDataInput> {
+  const text = new TextDecoder().decode(bytes)
+  const format = options.format === 'auto' ? detectFormat(text) : options.format
+
+  if (format === 'urlencoded') return text.trim().replace(/^\?/, '')
+  if (format === 'multipart') return readMultipart(bytes, options.boundary, options.parse)
+
+  const json = parseJsonObject(text)
+  const isHar = isObject(json.log) && Array.isArray(json.log.entries)
+  if (format === 'json' && !(options.format === 'auto' && isHar)) return json
+  if (!isHar) throw new CliError(EXIT_CODES.invalid, 'The input is not a HAR file')
+
+  const body = selectHarBody(json, options.entry, io)
+  if (body.params) {
+    return body.params.map(({ name, value = '', fileName, contentType }): [string, string | File] => [
+      name,
+      fileName === undefined ? value : new File([value], fileName, { type: contentType ?? '' }),
+    ])
+  }
+
+  const mimeType = body.mimeType ?? ''
+  const bodyBytes = new TextEncoder().encode(body.text ?? '')
+  switch (getBodyType(mimeType)) {
+    case 'urlencoded':
+      return body.text ?? ''
+    case 'multipart':
+      return readMultipart(bodyBytes, getMultipartBoundary(mimeType) ?? undefined, options.parse)
+    case 'json':
+      return parseJsonObject(body.text ?? '{}')
+    default:
+      throw new CliError(EXIT_CODES.invalid, `The HAR request body has unsupported type ${mimeType || '(none)'}`)
+  }
+}
+
+/**
+ * Converts nested JSON into bracket keys
+ * @param text - The input
+ * @param options - The output format and flatten options
+ * @returns The output text
+ */
+function flattenInput(text: string, options: CliOptions): string {
+  const entries = flattenToEntries(parseJsonObject(text), options.flatten) as Array<[string, string]>
+  if (options.output === 'urlencoded') return `${new URLSearchParams(entries).toString()}\n`
+
+  // Keys repeated by the brackets and repeat index styles collect their values in an array
+  const flat: Record<string, string | string[]> = {}
+  entries.forEach(([name, value]) => {
+    const existing = flat[name]
+    flat[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value]
+  })
+  return `${JSON.stringify(flat, null, options.indent)}\n`
+}
+
+/**
+ * Runs the command-line tool
+ * @param args - The arguments after the program name
+ * @param io - Input and output streams
+ * @returns The exit code, see EXIT_CODES
+ */
+export async function runCli(args: string[], io: CliIo): Promise<number> {
+  try {
+    const options = parseCliArgs(args)
+    if (!options) {
+      io.stdout(HELP)
+      return EXIT_CODES.ok
+    }
+
+    let bytes: Uint8Array
+    try {
+      bytes = await io.read(options.file)
+    } catch (error) {
+      throw new CliError(EXIT_CODES.usage, `Cannot read ${options.file ?? 'stdin'}: ${(error as Error).message}`)
+    }
+
+    if (options.command === 'flatten') {
+      io.stdout(flattenInput(new TextDecoder().decode(bytes), options))
+      return EXIT_CODES.ok
+    }
+
+    const input = await readInput(bytes, options, io)
+    const { result, diagnostics } = processFormDataWithDiagnostics(input, options.parse)
+    diagnostics.forEach(diagnostic => io.stderr(`warning: ${diagnostic.message} [${diagnostic.code}]\n`))
+    if (options.strict && diagnostics.length > 0) return EXIT_CODES.warnings
+
+    io.stdout(`${JSON.stringify(result, fileReplacer, options.indent)}\n`)
+    return EXIT_CODES.ok
+  } catch (error) {
+    if (error instanceof CliError) {
+      io.stderr(`error: ${error.message}\n`)
+      return error.exitCode
+    }
+    if (error instanceof FormDataParseError) {
+      io.stderr(`error: ${error.message} [${error.code}]\n`)
+      return EXIT_CODES.invalid
+    }
+    throw error
+  }
+}
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest'
+
+import { applyFormDataPatch, diffFormData, parseJsonPointer, toJsonPointer } from './diffUtils'
+import { FormDataParseError, processFormData } from './formUtils'
+
+describe('diffFormData', () => {
+  it('should report added, removed and replaced values', () => {
+    const previous = { name: 'John', user: { email: 'john@example.com', phone: '555' }, tags: ['a', 'b'] }
+    const next = { name: 'Jane', user: { email: 'john@example.com', city: 'Paris' }, tags: ['a', 'c', 'd'] }
+
+    expect(diffFormData(previous, next)).toEqual([
+      { op: 'replace', path: '/name', field: 'name', value: 'Jane', oldValue: 'John' },
+      { op: 'remove', path: '/user/phone', field: 'user[phone]', oldValue: '555' },
+      { op: 'add', path: '/user/city', field: 'user[city]', value: 'Paris' },
+      { op: 'replace', path: '/tags/1', field: 'tags[1]', value: 'c', oldValue: 'b' },
+      { op: 'add', path: '/tags/2', field: 'tags[2]', value: 'd' },
+    ])
+  })
+
+  it('should return no operations for equal data', () => {
+    const data = { profile: [{ name: 'John', due: new Date('2024-03-01') }], tags: ['a'] }
+    const copy = { profile: [{ name: 'John', due: new Date('2024-03-01') }], tags: ['a'] }
+
+    expect(diffFormData(data, copy)).toEqual([])
+  })
+
+  it('should remove trailing array items from the end', () => {
+    expect(diffFormData({ tags: ['a', 'b', 'c'] }, { tags: ['a'] })).toEqual([
+      { op: 'remove', path: '/tags/2', field: 'tags[2]', oldValue: 'c' },
+      { op: 'remove', path: '/tags/1', field: 'tags[1]', oldValue: 'b' },
+    ])
+  })
+
+  it('should replace values that change between containers and leaves', () => {
+    expect(diffFormData({ a: 'x', b: ['x'], c: { 0: 'x' } }, { a: ['x'], b: 'x', c: ['x'] })).toEqual([
+      { op: 'replace', path: '/a', field: 'a', value: ['x'], oldValue: 'x' },
+      { op: 'replace', path: '/b', field: 'b', value: 'x', oldValue: ['x'] },
+      { op: 'replace', path: '/c', field: 'c', value: ['x'], oldValue: { 0: 'x' } },
+    ])
+  })
+
+  it('should detect moved array items by their id', () => {
+    const previous = {
+      profile: [
+        { id: '1', name: 'John' },
+        { id: '2', name: 'Jane' },
+        { id: '3', name: 'Bob' },
+      ],
+    }
+    const next = {
+      profile: [
+        { id: '3', name: 'Bob' },
+        { id: '1', name: 'Johnny' },
+        { id: '4', name: 'Alice' },
+      ],
+    }
+
+    expect(diffFormData(previous, next)).toEqual([
+      { op: 'remove', path: '/profile/1', field: 'profile[1]', oldValue: { id: '2', name: 'Jane' } },
+      { op: 'move', path: '/profile/0', field: 'profile[0]', from: '/profile/1', fromField: 'profile[1]' },
+      { op: 'replace', path: '/profile/1/name', field: 'profile[1][name]', value: 'Johnny', oldValue: 'John' },
+      { op: 'add', path: '/profile/2', field: 'profile[2]', value: { id: '4', name: 'Alice' } },
+    ])
+  })
+
+  it('should use a custom identity key or function', () => {
+    const previous = { rows: [{ sku: 'a' }, { sku: 'b' }] }
+    const next = { rows: [{ sku: 'b' }, { sku: 'a' }] }
+    const move = { op: 'move', path: '/rows/0', field: 'rows[0]', from: '/rows/1', fromField: 'rows[1]' }
+
+    expect(diffFormData(previous, next, { identityKey: 'sku' })).toEqual([move])
+    expect(diffFormData(previous, next, { identityKey: item => item.sku })).toEqual([move])
+    expect(diffFormData(previous, next, { identityKey: null })).toEqual([
+      { op: 'replace', path: '/rows/0/sku', field: 'rows[0][sku]', value: 'b', oldValue: 'a' },
+      { op: 'replace', path: '/rows/1/sku', field: 'rows[1][sku]', value: 'a', oldValue: 'b' },
+    ])
+  })
+
+  it('should compare by index when items lack a unique identity', () => {
+    const previous = { rows: [{ id: '1' }, { name: 'x' }] }
+    const next = { rows: [{ name: 'x' }, { id: '1' }] }
+
+    expect(diffFormData(previous, next).map(operation => operation.op)).not.toContain('move')
+  })
+
+  it('should compare files by name, size and lastModified', () => {
+    const file = new File(['abc'], 'a.txt', { lastModified: 1000 })
+    const sameFile = new File(['xyz'], 'a.txt', { lastModified: 1000 })
+    const newerFile = new File(['abc'], 'a.txt', { lastModified: 2000 })
+
+    expect(diffFormData({ upload: file }, { upload: sameFile })).toEqual([])
+    expect(diffFormData({ upload: file }, { upload: newerFile })).toEqual([
+      { op: 'replace', path: '/upload', field: 'upload', value: newerFile, oldValue: file },
+    ])
+  })
+
+  it('should escape pointers and write field names in the chosen syntax', () => {
+    expect(diffFormData({ user: {} }, { user: { 'a/b~c': 'x' } })[0].path).toBe('/user/a~1b~0c')
+    expect(diffFormData({ user: {} }, { user: { name: 'x' } }, { pathSyntax: 'dot' })[0].field).toBe('user.name')
+  })
+
+  it('should diff parsed submissions', () => {
+    const initial = new FormData()
+    initial.append('profile[0][name]', 'John')
+    initial.append('profile[0][email]', 'john@example.com')
+    const submitted = new FormData()
+    submitted.append('profile[0][name]', 'John')
+    submitted.append('profile[0][email]', 'johnny@example.com')
+
+    expect(diffFormData(processFormData(initial), processFormData(submitted))).toEqual([
+      {
+        op: 'replace',
+        path: '/profile/0/email',
+        field: 'profile[0][email]',
+        value: 'johnny@example.com',
+        oldValue: 'john@example.com',
+      },
+    ])
+  })
+})
+
+describe('applyFormDataPatch', () => {
+  it('should turn the previous data into the next data', () => {
+    const file = new File(['abc'], 'a.txt')
+    const cases: Array<[Record<string, unknown>, Record<string, unknown>]> = [
+      [
+        { name: 'John', tags: ['a', 'b', 'c'] },
+        { name: 'Jane', tags: ['a'], city: 'Paris' },
+      ],
+      [
+        {
+          profile: [
+            { id: 1, name: 'A' },
+            { id: 2, name: 'B' },
+            { id: 3, name: 'C' },
+          ],
+        },
+        {
+          profile: [
+            { id: 3, name: 'C' },
+            { id: 5, name: 'E' },
+            { id: 1, name: 'A2' },
+            { id: 2, name: 'B' },
+          ],
+        },
+      ],
+      [{ a: { b: ['x', { c: 'y' }] } }, { a: { b: [{ c: 'z' }] }, upload: file }],
+      [
+        { rows: [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }] },
+        { rows: [{ id: 'd' }, { id: 'c' }, { id: 'b' }, { id: 'a' }] },
+      ],
+    ]
+
+    cases.forEach(([previous, next]) => {
+      expect(applyFormDataPatch(previous, diffFormData(previous, next))).toEqual(next)
+    })
+  })
+
+  it('should not modify the input or share containers with the patch', () => {
+    const data: Record<string, unknown> = { user: { name: 'John' }, tags: ['a'] }
+    const value = { city: 'Paris' }
+
+    const patched = applyFormDataPatch(data, [
+      { op: 'add', path: '/address', field: 'address', value },
+      { op: 'remove', path: '/tags/0', field: 'tags[0]', oldValue: 'a' },
+    ])
+
+    expect(data).toEqual({ user: { name: 'John' }, tags: ['a'] })
+    expect(patched).toEqual({ user: { name: 'John' }, tags: [], address: { city: 'Paris' } })
+    expect(patched.address).not.toBe(value)
+  })
+
+  it('should append to arrays with the - index', () => {
+    expect(applyFormDataPatch({ tags: ['a'] }, [{ op: 'add', path: '/tags/-', field: 'tags[]', value: 'b' }])).toEqual({
+      tags: ['a', 'b'],
+    })
+  })
+
+  it('should throw for operations that do not fit the data', () => {
+    const data = { tags: ['a'], user: { name: 'John' } }
+    const attempt = (path: string) => () =>
+      applyFormDataPatch(data, [{ op: 'replace', path, field: 'field', value: 'x', oldValue: 'y' }])
+
+    expect(attempt('/tags/1')).toThrow(FormDataParseError)
+    expect(attempt('/user/email')).toThrow('"/user/email" does not exist')
+    expect(attempt('/missing/name')).toThrow('"/missing/name" does not exist')
+    expect(attempt('tags')).toThrow('"tags" is not a JSON pointer')
+    expect(attempt('/__proto__/polluted')).toThrow('"/__proto__/polluted" contains a forbidden segment')
+    expect.assertions(6)
+
+    try {
+      attempt('/tags/01')()
+    } catch (error) {
+      expect(error).toMatchObject({ code: 'INVALID_PATCH', field: 'field' })
+    }
+  })
+})
+
+describe('JSON pointers', () => {
+  it('should round-trip paths with escaped characters', () => {
+    const path = ['profile', 0, 'a/b', '~x']
+
+    expect(toJsonPointer(path)).toBe('/profile/0/a~1b/~0x')
+    expect(parseJsonPointer(toJsonPointer(path))).toEqual(['profile', '0', 'a/b', '~x'])
+    expect(parseJsonPointer('')).toEqual([])
+  })
+})
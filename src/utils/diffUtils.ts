@@ -0,0 +1,265 @@
+import {
+  cloneContainers,
+  DANGEROUS_KEYS,
+  FormDataParseError,
+  isPlainContainer,
+  PathParser,
+  PathSegment,
+  PathSyntax,
+  ProcessedFormData,
+  toFieldName,
+} from './formUtils'
+
+/**
+ * Type definitions for diffing processed form data
+ */
+interface PatchLocation {
+  // JSON pointer to the changed value, e.g. `/profile/0/name`
+  path: string
+  // The same location as a field name, e.g. `profile[0][name]`
+  field: string
+}
+
+export type PatchOperation =
+  | (PatchLocation & { op: 'add'; value: unknown })
+  | (PatchLocation & { op: 'remove'; oldValue: unknown })
+  | (PatchLocation & { op: 'replace'; value: unknown; oldValue: unknown })
+  | (PatchLocation & { op: 'move'; from: string; fromField: string })
+
+export type FormDataPatch = PatchOperation[]
+
+// Returns the identity of an array item, or undefined if it has none
+export type IdentityFunction = (item: Record<string, unknown>) => unknown
+
+export interface DiffOptions {
+  // Property that identifies array items, so reordered items become moves (default: 'id'; null to compare by index)
+  identityKey?: string | IdentityFunction | null
+  // Path syntax of the field names in the patch (default: 'bracket')
+  pathSyntax?: PathSyntax | PathParser
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+const hasOwn = (target: object, key: string): boolean => Object.prototype.hasOwnProperty.call(target, key)
+
+/**
+ * Compares two leaf values; files are the same file when name, size and lastModified match
+ * @param a - The previous value
+ * @param b - The next value
+ * @returns true if the values are equal
+ */
+function isSameLeaf(a: unknown, b: unknown): boolean {
+  if (a instanceof File && b instanceof File) {
+    return a.name === b.name && a.size === b.size && a.lastModified === b.lastModified
+  }
+  if (a instanceof Date && b instanceof Date) return Object.is(a.getTime(), b.getTime())
+  return Object.is(a, b)
+}
+
+/**
+ * Builds a JSON pointer from a path
+ * @param path - Path segments, e.g. `['profile', 0, 'name']`
+ * @returns The pointer, e.g. `/profile/0/name`
+ */
+export function toJsonPointer(path: PathSegment[]): string {
+  return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+/**
+ * Splits a JSON pointer into path segments
+ * @param pointer - The pointer, e.g. `/profile/0/name`
+ * @returns The segments as strings, e.g. `['profile', '0', 'name']`
+ * @throws FormDataParseError if the pointer does not start with `/`
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new FormDataParseError('INVALID_PATCH', pointer, `"${pointer}" is not a JSON pointer`)
+  }
+  return pointer
+    .substring(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Lists the changes between two processed submissions as JSON-Patch-like operations
+ * that turn `previous` into `next` when applied in order
+ * @param previous - The initial data, e.g. the record a form was prefilled from
+ * @param next - The submitted data
+ * @param options - How array items are identified and how field names are written
+ * @returns The operations, empty if nothing changed
+ */
+export function diffFormData(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+  options: DiffOptions = {}
+): FormDataPatch {
+  const { identityKey = 'id', pathSyntax = 'bracket' } = options
+  const patch: FormDataPatch = []
+
+  const getIdentity: IdentityFunction | null = typeof identityKey === 'string' ? item => item[identityKey] : identityKey
+
+  const locate = (path: PathSegment[]): PatchLocation => ({
+    path: toJsonPointer(path),
+    field: toFieldName(path, pathSyntax),
+  })
+
+  const diffValue = (a: unknown, b: unknown, path: PathSegment[]): void => {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      diffArray(a, b, path)
+    } else if (isPlainContainer(a) && isPlainContainer(b) && !Array.isArray(a) && !Array.isArray(b)) {
+      diffObject(a, b, path)
+    } else if (isPlainContainer(a) || isPlainContainer(b) ? a !== b : !isSameLeaf(a, b)) {
+      patch.push({ op: 'replace', ...locate(path), value: b, oldValue: a })
+    }
+  }
+
+  const diffObject = (a: Record<string, unknown>, b: Record<string, unknown>, path: PathSegment[]): void => {
+    Object.keys(a).forEach(key => {
+      if (hasOwn(b, key)) {
+        diffValue(a[key], b[key], [...path, key])
+      } else {
+        patch.push({ op: 'remove', ...locate([...path, key]), oldValue: a[key] })
+      }
+    })
+    Object.keys(b).forEach(key => {
+      if (!hasOwn(a, key)) patch.push({ op: 'add', ...locate([...path, key]), value: b[key] })
+    })
+  }
+
+  // The identity of every item, or null if any item lacks one or two items share one
+  const identitiesOf = (items: unknown[]): unknown[] | null => {
+    if (!getIdentity) return null
+    const identities = items.map(item =>
+      isPlainContainer(item) && !Array.isArray(item) ? getIdentity(item as Record<string, unknown>) : undefined
+    )
+    const unique = identities.every(identity => identity !== undefined && identity !== null)
+    return unique && new Set(identities).size === identities.length ? identities : null
+  }
+
+  const diffArray = (a: unknown[], b: unknown[], path: PathSegment[]): void => {
+    const previousIds = identitiesOf(a)
+    const nextIds = identitiesOf(b)
+
+    if (!previousIds || !nextIds) {
+      a.slice(0, b.length).forEach((item, index) => diffValue(item, b[index], [...path, index]))
+      for (let index = a.length - 1; index >= b.length; index--) {
+        patch.push({ op: 'remove', ...locate([...path, index]), oldValue: a[index] })
+      }
+      b.slice(a.length).forEach((item, offset) => {
+        patch.push({ op: 'add', ...locate([...path, a.length + offset]), value: item })
+      })
+      return
+    }
+
+    // Replay the operations on a working copy so every index refers to the array as already patched
+    const working = a.map((item, index) => ({ id: previousIds[index], item }))
+    const kept = new Set(nextIds)
+    for (let index = working.length - 1; index >= 0; index--) {
+      if (!kept.has(working[index].id)) {
+        patch.push({ op: 'remove', ...locate([...path, index]), oldValue: working[index].item })
+        working.splice(index, 1)
+      }
+    }
+
+    b.forEach((item, index) => {
+      const current = working.findIndex(entry => entry.id === nextIds[index])
+      if (current === -1) {
+        patch.push({ op: 'add', ...locate([...path, index]), value: item })
+        working.splice(index, 0, { id: nextIds[index], item })
+        return
+      }
+      if (current !== index) {
+        const from = locate([...path, current])
+        patch.push({ op: 'move', ...locate([...path, index]), from: from.path, fromField: from.field })
+        working.splice(index, 0, ...working.splice(current, 1))
+      }
+      diffValue(working[index].item, item, [...path, index])
+    })
+  }
+
+  diffObject(previous, next, [])
+  return patch
+}
+
+/**
+ * Applies a patch produced by diffFormData, e.g. to replay an audit log entry
+ * @param data - The data to patch; it is not modified
+ * @param patch - The operations to apply in order
+ * @returns A patched copy of the data
+ * @throws FormDataParseError with code `INVALID_PATCH` if an operation does not fit the data
+ */
+export function applyFormDataPatch<T extends Record<string, unknown> = ProcessedFormData>(
+  data: T,
+  patch: FormDataPatch
+): T {
+  const root = cloneContainers(data) as T
+
+  patch.forEach(operation => {
+    const fail = (message: string): never => {
+      throw new FormDataParseError('INVALID_PATCH', operation.field, message)
+    }
+
+    // Resolves the container holding the last segment of a pointer
+    const resolve = (pointer: string): { parent: Container; key: string } => {
+      const segments = parseJsonPointer(pointer)
+      if (segments.length === 0) fail(`Cannot ${operation.op} the root of the data`)
+      if (segments.some(segment => DANGEROUS_KEYS.has(segment))) fail(`"${pointer}" contains a forbidden segment`)
+
+      let parent: unknown = root
+      segments.slice(0, -1).forEach(segment => {
+        const child =
+          isPlainContainer(parent) && hasOwn(parent, segment) ? (parent as Record<string, unknown>)[segment] : undefined
+        if (!isPlainContainer(child)) fail(`"${pointer}" does not exist`)
+        parent = child
+      })
+      return { parent: parent as Container, key: segments[segments.length - 1] }
+    }
+
+    // Converts an array index segment, allowing `-` (the end) and the length when adding
+    const toIndex = (array: unknown[], key: string, adding: boolean): number => {
+      const index = key === '-' && adding ? array.length : /^(0|[1-9]\d*)$/.test(key) ? Number(key) : -1
+      if (index < 0 || index > array.length || (index === array.length && !adding)) {
+        fail(`"${key}" is not a valid index for an array of length ${array.length}`)
+      }
+      return index
+    }
+
+    const remove = (pointer: string): unknown => {
+      const { parent, key } = resolve(pointer)
+      if (Array.isArray(parent)) return parent.splice(toIndex(parent, key, false), 1)[0]
+      if (!hasOwn(parent, key)) fail(`"${pointer}" does not exist`)
+      const value = parent[key]
+      delete parent[key]
+      return value
+    }
+
+    const add = (pointer: string, value: unknown): void => {
+      const { parent, key } = resolve(pointer)
+      if (Array.isArray(parent)) {
+        parent.splice(toIndex(parent, key, true), 0, value)
+      } else {
+        parent[key] = value
+      }
+    }
+
+    switch (operation.op) {
+      case 'add':
+        add(operation.path, cloneContainers(operation.value))
+        break
+      case 'remove':
+        remove(operation.path)
+        break
+      case 'replace':
+        remove(operation.path)
+        add(operation.path, cloneContainers(operation.value))
+        break
+      case 'move':
+        add(operation.path, remove(operation.from))
+        break
+    }
+  })
+
+  return root
+}
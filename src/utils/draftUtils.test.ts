@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  countDraftRows,
+  describeSkippedFiles,
+  memoryDraftStorage,
+  migrateDraft,
+  restoreDraft,
+  snapshotForm,
+  StoredDraft,
+  webDraftStorage,
+} from './draftUtils'
+
+// Helper function to build a form from HTML
+function createForm(html: string): HTMLFormElement {
+  const form = document.createElement('form')
+  form.innerHTML = html
+  return form
+}
+
+const field = (form: HTMLFormElement, name: string) => form.elements.namedItem(name) as HTMLInputElement
+
+describe('snapshotForm', () => {
+  it('should process text fields and keep empty values', () => {
+    const form = createForm(`
+      <input name="profile[0][name]" value="John">
+      <input name="profile[0][email]" value="">
+      <input name="profile[1][name]" value="">
+      <input name="profile[1][email]" value="">
+      <input type="checkbox" name="tags[]" value="a" checked>
+      <input type="checkbox" name="tags[]" value="b">
+    `)
+
+    const draft = snapshotForm(form, 2)
+
+    expect(draft).toEqual({
+      version: 2,
+      savedAt: expect.any(Number),
+      data: {
+        profile: [
+          { name: 'John', email: '' },
+          { name: '', email: '' },
+        ],
+        tags: ['a'],
+      },
+      files: {},
+    })
+  })
+})
+
+describe('restoreDraft', () => {
+  const draft = (data: StoredDraft['data'], files: StoredDraft['files'] = {}): StoredDraft => ({
+    version: 1,
+    savedAt: 0,
+    data,
+    files,
+  })
+
+  it('should fill fields by bracket name', () => {
+    const form = createForm(`
+      <input name="profile[0][name]">
+      <textarea name="profile[0][bio]"></textarea>
+      <select name="contactMethod"><option value="email">Email</option><option value="phone">Phone</option></select>
+      <input type="radio" name="plan" value="free" checked>
+      <input type="radio" name="plan" value="pro">
+      <input type="checkbox" name="newsletter" value="yes" checked>
+    `)
+
+    const result = restoreDraft(
+      form,
+      draft({ profile: [{ name: 'John', bio: 'Hi' }], contactMethod: 'phone', plan: 'pro', extra: 'x' })
+    )
+
+    expect(field(form, 'profile[0][name]').value).toBe('John')
+    expect(field(form, 'profile[0][bio]').value).toBe('Hi')
+    expect(field(form, 'contactMethod').value).toBe('phone')
+    expect(new FormData(form).get('plan')).toBe('pro')
+    // Not in the draft, so it was unchecked when saved
+    expect(field(form, 'newsletter').checked).toBe(false)
+    expect(result).toEqual({
+      restored: ['profile[0][name]', 'profile[0][bio]', 'contactMethod', 'plan'],
+      skippedFiles: [],
+      missing: ['extra'],
+    })
+  })
+
+  it('should restore repeated and multiple-choice fields', () => {
+    const form = createForm(`
+      <input name="ssns[]">
+      <input name="ssns[]">
+      <input type="checkbox" name="tags" value="a">
+      <input type="checkbox" name="tags" value="b">
+      <select name="colors[]" multiple><option>red</option><option>green</option><option>blue</option></select>
+    `)
+
+    restoreDraft(form, draft({ ssns: ['111', '222'], tags: ['b'], colors: ['red', 'blue'] }))
+
+    expect(
+      Array.from(form.querySelectorAll('input[name="ssns[]"]'), input => (input as HTMLInputElement).value)
+    ).toEqual(['111', '222'])
+    expect(new FormData(form).getAll('tags')).toEqual(['b'])
+    expect(new FormData(form).getAll('colors[]')).toEqual(['red', 'blue'])
+  })
+
+  it('should report rows that have no elements', () => {
+    const form = createForm('<input name="profile[0][name]">')
+
+    const result = restoreDraft(form, draft({ profile: [{ name: 'John' }, { name: 'Jane' }] }))
+
+    expect(result.missing).toEqual(['profile[1][name]'])
+  })
+
+  it('should skip file inputs with a notice', () => {
+    const form = createForm('<input type="file" name="avatar"><input name="name">')
+    const avatar = { name: 'avatar.svg', size: 6, type: 'image/svg+xml', lastModified: 1000 }
+
+    const result = restoreDraft(form, draft({ name: 'John' }, { avatar: [avatar] }))
+
+    expect(result.skippedFiles).toEqual([{ field: 'avatar', files: [avatar] }])
+    expect(describeSkippedFiles(result.skippedFiles)).toBe(
+      'Files are not saved with drafts. Please choose avatar.svg again.'
+    )
+    expect(describeSkippedFiles([])).toBeNull()
+  })
+})
+
+describe('countDraftRows', () => {
+  it('should count the items of nested arrays by field name', () => {
+    expect(countDraftRows({ profile: [{ phones: ['1', '2'] }, { phones: [] }], name: 'John' })).toEqual({
+      profile: 2,
+      'profile[0][phones]': 2,
+      'profile[1][phones]': 0,
+    })
+  })
+})
+
+describe('migrateDraft', () => {
+  const stored: StoredDraft = { version: 1, savedAt: 0, data: { fullName: 'John' }, files: {} }
+
+  it('should migrate older drafts', () => {
+    const migrated = migrateDraft(stored, {
+      version: 2,
+      migrate: ({ fullName, ...data }, fromVersion) => (fromVersion === 1 ? { ...data, name: fullName } : null),
+    })
+
+    expect(migrated).toEqual({ ...stored, version: 2, data: { name: 'John' } })
+  })
+
+  it('should discard drafts that cannot be migrated', () => {
+    expect(migrateDraft(stored, { version: 2 })).toBeNull()
+    expect(migrateDraft(stored, { version: 2, migrate: () => null })).toBeNull()
+    expect(migrateDraft({ ...stored, version: 3 }, { version: 2, migrate: data => data })).toBeNull()
+    expect(migrateDraft(stored)).toBe(stored)
+  })
+})
+
+describe('draft storage', () => {
+  const stored: StoredDraft = { version: 1, savedAt: 0, data: { name: 'John' }, files: {} }
+
+  it.each([
+    ['memory', memoryDraftStorage()],
+    ['localStorage', webDraftStorage(window.localStorage)],
+    ['sessionStorage', webDraftStorage(window.sessionStorage)],
+  ])('should save, load and remove drafts in %s', async (_, storage) => {
+    await storage.set('profiles', stored)
+    expect(await storage.get('profiles')).toEqual(stored)
+
+    await storage.remove('profiles')
+    expect(await storage.get('profiles')).toBeNull()
+  })
+
+  it('should treat unreadable entries as no draft', async () => {
+    window.localStorage.setItem('broken', '{')
+
+    expect(await webDraftStorage(window.localStorage).get('broken')).toBeNull()
+    window.localStorage.removeItem('broken')
+  })
+})
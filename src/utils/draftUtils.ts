@@ -0,0 +1,327 @@
+import { FileDescriptor } from './fileUtils'
+import { flattenToEntries } from './flattenUtils'
+import { compileFormDataParser, PathSegment, ProcessedFormData, toFieldName } from './formUtils'
+import { BUTTON_TYPES } from './typedFormUtils'
+
+/**
+ * Type definitions for form drafts
+ */
+export interface StoredDraft {
+  // Schema version the draft was saved with
+  version: number
+  // When the draft was saved, in milliseconds since the epoch
+  savedAt: number
+  // The text fields, as processed by processFormData
+  data: ProcessedFormData
+  // Files chosen at save time by field name; they are described but never stored
+  files: Record<string, FileDescriptor[]>
+}
+
+/**
+ * Where drafts are kept. Every method may be async so that IndexedDB
+ * and remote stores fit the same interface as web storage.
+ */
+export interface DraftStorage {
+  get(key: string): Promise<StoredDraft | null>
+  set(key: string, draft: StoredDraft): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+/**
+ * Upgrades the data of a draft saved with an older schema version
+ * @param data - The stored data
+ * @param fromVersion - The version the draft was saved with
+ * @returns The data in the current shape, or null to discard the draft
+ */
+export type DraftMigration = (data: ProcessedFormData, fromVersion: number) => ProcessedFormData | null
+
+export interface DraftVersionOptions {
+  // Schema version written with every draft; bump it when the form's fields change (default: 1)
+  version?: number
+  // Upgrades older drafts; without it they are discarded, as are drafts from newer versions
+  migrate?: DraftMigration
+}
+
+export interface SkippedFile {
+  // Name of the file input, e.g. `profile[0][avatar]`
+  field: string
+  // The files that were chosen when the draft was saved
+  files: FileDescriptor[]
+}
+
+export interface RestoreResult {
+  // Names of the fields whose value was set from the draft
+  restored: string[]
+  // File inputs that had files in the draft; browsers only let the user choose files
+  skippedFiles: SkippedFile[]
+  // Draft fields without a matching element, e.g. rows that were not recreated
+  missing: string[]
+}
+
+/**
+ * Stores drafts as JSON in a web Storage area
+ * @param storage - localStorage, sessionStorage or anything with the same interface
+ * @returns The draft storage; unreadable entries load as no draft
+ */
+export function webDraftStorage(storage: Storage): DraftStorage {
+  return {
+    async get(key) {
+      const json = storage.getItem(key)
+      if (json === null) return null
+      try {
+        return JSON.parse(json) as StoredDraft
+      } catch {
+        return null
+      }
+    },
+    async set(key, draft) {
+      storage.setItem(key, JSON.stringify(draft))
+    },
+    async remove(key) {
+      storage.removeItem(key)
+    },
+  }
+}
+
+// Resolved when first used, so importing this module never touches window
+export const localDraftStorage = (): DraftStorage => webDraftStorage(window.localStorage)
+
+export const sessionDraftStorage = (): DraftStorage => webDraftStorage(window.sessionStorage)
+
+/**
+ * Keeps drafts in a Map, for tests and for forms that only need to survive re-mounting
+ * @returns The draft storage
+ */
+export function memoryDraftStorage(): DraftStorage {
+  const drafts = new Map<string, string>()
+  return {
+    // Copied on the way in and out, like a real store
+    get: async key => {
+      const json = drafts.get(key)
+      return json === undefined ? null : (JSON.parse(json) as StoredDraft)
+    },
+    set: async (key, draft) => {
+      drafts.set(key, JSON.stringify(draft))
+    },
+    remove: async key => {
+      drafts.delete(key)
+    },
+  }
+}
+
+export interface IndexedDbDraftOptions {
+  // Database name (default: 'form-drafts')
+  databaseName?: string
+  // Object store name (default: 'drafts')
+  storeName?: string
+}
+
+/**
+ * Stores drafts in IndexedDB, which has no size limit of a few megabytes like web storage
+ * @param options - The database and object store names
+ * @returns The draft storage; the database is opened on first use
+ */
+export function indexedDbDraftStorage(options: IndexedDbDraftOptions = {}): DraftStorage {
+  const { databaseName = 'form-drafts', storeName = 'drafts' } = options
+  let database: Promise<IDBDatabase> | null = null
+
+  const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    return database
+  }
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    promisify(action((await open()).transaction(storeName, mode).objectStore(storeName)))
+
+  return {
+    get: async key => ((await run('readonly', store => store.get(key))) as StoredDraft | undefined) ?? null,
+    set: async (key, draft) => {
+      await run('readwrite', store => store.put(draft, key))
+    },
+    remove: async key => {
+      await run('readwrite', store => store.delete(key))
+    },
+  }
+}
+
+// Keeps empty strings and objects, compiled once for every snapshot
+const snapshotProcessor = compileFormDataParser({ emptyStrings: 'keep', pruneEmptyObjects: false })
+
+/**
+ * Captures a form as a draft. Text fields go through processFormData with empty
+ * strings and objects kept, so cleared fields and blank rows are restored as they were.
+ * @param form - The form element
+ * @param version - The schema version to record
+ * @returns The draft, with files described rather than stored
+ */
+export function snapshotForm(form: HTMLFormElement, version = 1): StoredDraft {
+  const fields: Array<[string, string]> = []
+  const files: Record<string, FileDescriptor[]> = {}
+
+  new FormData(form).forEach((value, key) => {
+    if (typeof value === 'string') {
+      fields.push([key, value])
+    } else if (value.name !== '') {
+      // An empty file input submits a nameless file
+      const { name, size, type, lastModified } = value
+      files[key] = [...(files[key] ?? []), { name, size, type, lastModified }]
+    }
+  })
+
+  return {
+    version,
+    savedAt: Date.now(),
+    data: snapshotProcessor.process(fields),
+    files,
+  }
+}
+
+/**
+ * Brings a stored draft up to the current schema version
+ * @param draft - The stored draft
+ * @param options - The current version and the migration
+ * @returns The draft at the current version, or null if it cannot be used
+ */
+export function migrateDraft(draft: StoredDraft, options: DraftVersionOptions = {}): StoredDraft | null {
+  const { version = 1, migrate } = options
+  if (draft.version === version) return draft
+  if (draft.version > version || !migrate) return null
+
+  const data = migrate(draft.data, draft.version)
+  return data && { ...draft, version, data }
+}
+
+/**
+ * Counts the items of every array in the draft data
+ * @param data - The draft data
+ * @returns Lengths by field name, e.g. `{ profile: 4, 'profile[0][phones]': 2 }`
+ */
+export function countDraftRows(data: ProcessedFormData): Record<string, number> {
+  const counts: Record<string, number> = {}
+
+  const walk = (value: unknown, path: PathSegment[]): void => {
+    if (Array.isArray(value)) {
+      counts[toFieldName(path)] = value.length
+      value.forEach((item, index) => walk(item, [...path, index]))
+    } else if (typeof value === 'object' && value !== null) {
+      Object.entries(value).forEach(([key, child]) => walk(child, [...path, key]))
+    }
+  }
+
+  walk(data, [])
+  return counts
+}
+
+type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+
+const isFormField = (element: Element): element is FormField =>
+  element instanceof HTMLInputElement || element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement
+
+/**
+ * Finds the draft values for a field name. Besides an exact match, `tags[]` takes
+ * the items of `tags`, and so does a repeated `tags` such as a group of checkboxes.
+ * @param values - Draft values by bracket name
+ * @param name - The element's name
+ * @returns The values, or undefined if the draft has none
+ */
+function findValues(values: Map<string, string[]>, name: string): string[] | undefined {
+  const exact = values.get(name)
+  if (exact) return exact
+
+  const base = name.endsWith('[]') ? name.slice(0, -2) : name
+  const items: string[] = []
+  for (let index = 0; values.has(`${base}[${index}]`); index++) {
+    items.push(...(values.get(`${base}[${index}]`) as string[]))
+  }
+  return items.length > 0 ? items : undefined
+}
+
+/**
+ * Fills a form with the values of a draft, matching elements by their bracket names.
+ * Rows added at runtime must be rendered first, see countDraftRows; setting values
+ * does not fire input events.
+ * @param form - The form element
+ * @param draft - The draft to restore
+ * @returns What was restored, the file inputs that were skipped and the fields left over
+ */
+export function restoreDraft(form: HTMLFormElement, draft: StoredDraft): RestoreResult {
+  const values = new Map<string, string[]>()
+  flattenToEntries(draft.data).forEach(([name, value]) => {
+    values.set(name, [...(values.get(name) ?? []), String(value)])
+  })
+
+  const restored = new Set<string>()
+  const used = new Set<string>()
+  const skippedFiles: SkippedFile[] = []
+  // How many elements of each name have taken a value, for repeated text inputs
+  const positions = new Map<string, number>()
+
+  Array.from(form.elements)
+    .filter(isFormField)
+    .forEach(element => {
+      const { name } = element
+      if (!name || BUTTON_TYPES.has(element.type)) return
+
+      if (element.type === 'file') {
+        if (draft.files[name] && !skippedFiles.some(skipped => skipped.field === name)) {
+          skippedFiles.push({ field: name, files: draft.files[name] })
+        }
+        return
+      }
+
+      const fieldValues = findValues(values, name)
+      const markUsed = () => {
+        restored.add(name)
+        const base = name.endsWith('[]') ? name.slice(0, -2) : name
+        values.forEach((_, key) => {
+          if (key === name || (key.startsWith(base) && /^\[\d+\]$/.test(key.substring(base.length)))) used.add(key)
+        })
+      }
+
+      if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+        // An unchecked box is not submitted, so a missing value means unchecked
+        element.checked = fieldValues?.includes(element.value) ?? false
+        if (fieldValues) markUsed()
+      } else if (element instanceof HTMLSelectElement && element.multiple) {
+        Array.from(element.options).forEach(option => {
+          option.selected = fieldValues?.includes(option.value) ?? false
+        })
+        if (fieldValues) markUsed()
+      } else if (fieldValues) {
+        const position = positions.get(name) ?? 0
+        positions.set(name, position + 1)
+        if (position < fieldValues.length) {
+          element.value = fieldValues[position]
+          markUsed()
+        }
+      }
+    })
+
+  return {
+    restored: [...restored],
+    skippedFiles,
+    missing: [...values.keys()].filter(name => !used.has(name)),
+  }
+}
+
+/**
+ * Explains which files have to be chosen again after a restore
+ * @param skippedFiles - The skipped file inputs from restoreDraft
+ * @returns A message for the user, or null if no files were skipped
+ */
+export function describeSkippedFiles(skippedFiles: SkippedFile[]): string | null {
+  if (skippedFiles.length === 0) return null
+  const names = skippedFiles.flatMap(({ files }) => files.map(file => file.name))
+  return `Files are not saved with drafts. Please choose ${names.join(', ')} again.`
+}
@@ -0,0 +1,101 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+
+import { defineFormFields, InferFormData, ParseFieldName } from './fieldUtils'
+
+describe('InferFormData', () => {
+  it('should split field names into paths', () => {
+    expectTypeOf<ParseFieldName<'name'>>().toEqualTypeOf<['name']>()
+    expectTypeOf<ParseFieldName<'profile[0][name]'>>().toEqualTypeOf<['profile', '0', 'name']>()
+    expectTypeOf<ParseFieldName<'tags[]'>>().toEqualTypeOf<['tags', '']>()
+    expectTypeOf<ParseFieldName<'data[0][items][][name]'>>().toEqualTypeOf<['data', '0', 'items', '', 'name']>()
+  })
+
+  it('should infer simple fields, objects and arrays', () => {
+    type Result = InferFormData<['age', 'user[address][city]', 'user[name]', 'tags[]', 'ssns[0]', 'ssns[1]']>
+
+    expectTypeOf<Result>().toEqualTypeOf<{
+      age?: string
+      user?: { address?: { city?: string }; name?: string }
+      tags?: string[]
+      ssns?: string[]
+    }>()
+  })
+
+  it('should merge the fields of array items', () => {
+    type Result = InferFormData<['profile[0][name]', 'profile[0][email]', 'profile[1][name]', 'profile[0][tags][]']>
+
+    expectTypeOf<Result>().toEqualTypeOf<{
+      profile?: Array<{ name?: string; email?: string; tags?: string[] }>
+    }>()
+  })
+
+  it('should treat mixed numeric and named keys as an object', () => {
+    type Result = InferFormData<['items[0]', 'items[total]']>
+
+    expectTypeOf<Result>().toEqualTypeOf<{ items?: { 0?: string; total?: string } }>()
+  })
+
+  it('should only treat canonical non-negative integers as array indices', () => {
+    type Result = InferFormData<['rows[10][id]', 'zip[007]', 'n[-1]', 'm[1.5]', 'e[1e3]', 'codes[0]', 'codes[01]']>
+
+    expectTypeOf<Result>().toEqualTypeOf<{
+      rows?: Array<{ id?: string }>
+      zip?: { '007'?: string }
+      n?: { '-1'?: string }
+      m?: { '1.5'?: string }
+      e?: { '1e3'?: string }
+      codes?: { 0?: string; '01'?: string }
+    }>()
+  })
+
+  it('should type values from hint suffixes', () => {
+    type Result = InferFormData<['qty:number', 'order[gift]:boolean', 'order[due]:date', 'sizes[]:number', 'time:12']>
+
+    expectTypeOf<Result>().toEqualTypeOf<{
+      qty?: number | null
+      order?: { gift?: boolean; due?: Date | null }
+      sizes?: Array<number | null>
+      'time:12'?: string
+    }>()
+  })
+})
+
+describe('defineFormFields', () => {
+  const fields = defineFormFields(['contactMethod', 'profile[0][name]', 'profile[0][email]', 'ssns[]', 'age:number'])
+
+  it('should return declared names unchanged', () => {
+    expect(fields.name('profile[0][name]')).toBe('profile[0][name]')
+    expectTypeOf(fields.names).toEqualTypeOf<
+      readonly ['contactMethod', 'profile[0][name]', 'profile[0][email]', 'ssns[]', 'age:number']
+    >()
+
+    // @ts-expect-error - renamed inputs no longer compile
+    fields.name('profile[0][fullName]')
+  })
+
+  it('should parse submissions into the inferred type', () => {
+    const formData = new FormData()
+    formData.append('contactMethod', 'email')
+    formData.append('profile[0][name]', 'John Doe')
+    formData.append('ssns[]', '123-45-6789')
+    formData.append('age:number', '30')
+
+    const result = fields.parse(formData)
+
+    expect(result).toEqual({
+      contactMethod: 'email',
+      profile: [{ name: 'John Doe' }],
+      ssns: ['123-45-6789'],
+      age: 30,
+    })
+    expectTypeOf(result).toEqualTypeOf<{
+      contactMethod?: string
+      profile?: Array<{ name?: string; email?: string }>
+      ssns?: string[]
+      age?: number | null
+    }>()
+    expectTypeOf(result.profile?.[0]?.name).toEqualTypeOf<string | undefined>()
+    // @ts-expect-error - fields that were not declared are not in the result type
+    void result.profile?.[0]?.phone
+  })
+})
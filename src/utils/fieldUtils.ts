@@ -0,0 +1,106 @@
+import { FormDataInput, ProcessFormDataOptions } from './formUtils'
+import { processForm, TypeHint } from './typedFormUtils'
+
+/**
+ * Type-level parsing of bracket-notation field names
+ */
+
+// Splits the bracket segments after the base name: `[0][name]` → ['0', 'name']
+type ParseBrackets<S extends string> = S extends `[${infer Segment}]${infer Rest}`
+  ? [Segment, ...ParseBrackets<Rest>]
+  : []
+
+// Splits a field name into its path: `profile[0][name]` → ['profile', '0', 'name']
+export type ParseFieldName<S extends string> = S extends `${infer Base}[${infer Rest}`
+  ? [Base, ...ParseBrackets<`[${Rest}`>]
+  : [S]
+
+// Splits a type hint suffix off a field name: `qty:number` → ['qty', 'number']
+type SplitHint<S extends string> = S extends `${infer Name}:${infer Hint extends TypeHint}` ? [Name, Hint] : [S, never]
+
+// The value type of a field, from its type hint
+type HintValue<Hint> = [Hint] extends [never]
+  ? string
+  : Hint extends 'number'
+    ? number | null
+    : Hint extends 'boolean'
+      ? boolean
+      : Hint extends 'date'
+        ? Date | null
+        : string
+
+interface FieldEntry {
+  path: string[]
+  value: unknown
+}
+
+// Distributes over the union of field names, one entry each
+type ToEntry<Field extends string> = Field extends string
+  ? SplitHint<Field> extends [infer Name extends string, infer Hint]
+    ? { path: ParseFieldName<Name>; value: HintValue<Hint> }
+    : never
+  : never
+
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9'
+
+// Whether a string is made of digits only
+type IsDigits<S extends string> = S extends `${Digit}${infer Rest}` ? (Rest extends '' ? true : IsDigits<Rest>) : false
+
+// Empty brackets and non-negative integers without a leading zero, sign or decimals address array
+// items, as at runtime; `007`, `-1` and `1.5` are object keys. Distributes over a union of segments.
+type IsIndexSegment<S extends string> = S extends '' | '0'
+  ? true
+  : S extends `${Exclude<Digit, '0'>}${infer Rest}`
+    ? Rest extends ''
+      ? true
+      : IsDigits<Rest>
+    : false
+
+type HeadOf<E extends FieldEntry> = E extends { path: [infer Head extends string, ...string[]] } ? Head : never
+
+type TailOf<E extends FieldEntry, Key extends string> = E extends {
+  path: [Key, ...infer Rest extends string[]]
+  value: infer Value
+}
+  ? { path: Rest; value: Value }
+  : never
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+// Values may be left out when empty, so every key is optional
+type BuildObject<E extends FieldEntry> = Simplify<{ [K in HeadOf<E>]?: BuildNode<TailOf<E, K>> }>
+
+// A node is a leaf when every path ends here, an array when every key is an index, and an object otherwise
+type BuildNode<E extends FieldEntry> = [HeadOf<E>] extends [never]
+  ? E['value']
+  : false extends IsIndexSegment<HeadOf<E>>
+    ? BuildObject<E>
+    : Array<BuildNode<TailOf<E, HeadOf<E>>>>
+
+/**
+ * The processed result for a list of field names, e.g.
+ * `InferFormData<['profile[0][name]', 'tags[]', 'age:number']>` is
+ * `{ profile?: Array<{ name?: string }>; tags?: string[]; age?: number | null }`
+ */
+export type InferFormData<Fields extends readonly string[]> = BuildObject<ToEntry<Fields[number]>>
+
+export interface FormFields<Fields extends readonly string[]> {
+  readonly names: Fields
+  // Returns a declared field name unchanged, so a renamed or mistyped name fails to compile
+  name<Field extends Fields[number]>(field: Field): Field
+  // Processes submitted data, applying type hints, into the inferred shape
+  parse(data: FormDataInput, options?: ProcessFormDataOptions): InferFormData<Fields>
+}
+
+/**
+ * Declares the field names of a form once, so the processed result is typed from them
+ * @param names - The field names in bracket notation, with optional type hints such as `qty:number`
+ * @returns Helpers to write the names into inputs and parse submissions into the inferred type
+ */
+export function defineFormFields<const Fields extends readonly string[]>(names: Fields): FormFields<Fields> {
+  return {
+    names,
+    name: field => field,
+    parse: (data, options) => processForm(data, options) as InferFormData<Fields>,
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+
+import { describeFile, fileReplacer, processFormDataWithFiles } from './fileUtils'
+
+describe('processFormDataWithFiles', () => {
+  const avatar = new File(['<svg/>'], 'avatar.svg', { type: 'image/svg+xml', lastModified: 1000 })
+  const report = new File(['%PDF-1.7'], 'Report.PDF', { type: 'application/pdf', lastModified: 2000 })
+  const script = new File(['alert(1)'], 'run.js', { type: 'text/javascript', lastModified: 3000 })
+
+  it('should replace files with descriptors', async () => {
+    const formData = new FormData()
+    formData.append('name', 'John')
+    formData.append('profile[0][avatar]', avatar)
+
+    const result = await processFormDataWithFiles(formData)
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        name: 'John',
+        profile: [{ avatar: { name: 'avatar.svg', size: 6, type: 'image/svg+xml', lastModified: 1000 } }],
+      },
+    })
+    expect(JSON.parse(JSON.stringify(result))).toEqual(result)
+  })
+
+  it('should keep multiple file inputs as arrays without the empty placeholder', async () => {
+    const formData = new FormData()
+    formData.append('attachments[]', avatar)
+    formData.append('attachments[]', report)
+    formData.append('cover', new File([], ''))
+    formData.append('extra[]', new File([], ''))
+
+    const result = await processFormDataWithFiles(formData)
+
+    expect(result.success && result.data).toEqual({
+      attachments: [
+        { name: 'avatar.svg', size: 6, type: 'image/svg+xml', lastModified: 1000 },
+        { name: 'Report.PDF', size: 8, type: 'application/pdf', lastModified: 2000 },
+      ],
+      extra: [],
+    })
+  })
+
+  it('should reject files by mime type, extension and size at their field', async () => {
+    const formData = new FormData()
+    formData.append('attachments[]', avatar)
+    formData.append('attachments[]', script)
+    formData.append('profile[0][cv]', report)
+
+    const result = await processFormDataWithFiles(formData, {
+      accept: ['image/*', 'application/pdf'],
+      extensions: ['.svg', 'pdf'],
+      maxSize: 7,
+    })
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        {
+          field: 'attachments[]',
+          path: ['attachments', 1],
+          code: 'invalid_file_type',
+          message: 'File type text/javascript is not allowed',
+        },
+        {
+          field: 'attachments[]',
+          path: ['attachments', 1],
+          code: 'invalid_file_extension',
+          message: 'Files must end in .svg, .pdf',
+        },
+        {
+          field: 'attachments[]',
+          path: ['attachments', 1],
+          code: 'file_too_large',
+          message: 'File must be at most 7 bytes',
+        },
+        {
+          field: 'profile[0][cv]',
+          path: ['profile', 0, 'cv'],
+          code: 'file_too_large',
+          message: 'File must be at most 7 bytes',
+        },
+      ],
+    })
+  })
+
+  it('should name errors after the output index once empty files are removed', async () => {
+    const formData = new FormData()
+    formData.append('attachments[0]', new File([], ''))
+    formData.append('attachments[1]', script)
+
+    const result = await processFormDataWithFiles(formData, { accept: ['image/*'] })
+
+    expect(result.success ? [] : result.errors.map(({ field, path }) => [field, path])).toEqual([
+      ['attachments[1]', ['attachments', 0]],
+    ])
+  })
+
+  it('should keep dates in the processed data', async () => {
+    const updatedAt = new Date('2024-01-01T00:00:00Z')
+
+    const result = await processFormDataWithFiles({ avatar, meta: { updatedAt } })
+
+    expect(result.success && result.data).toEqual({
+      avatar: { name: 'avatar.svg', size: 6, type: 'image/svg+xml', lastModified: 1000 },
+      meta: { updatedAt },
+    })
+  })
+
+  it('should pass options through to processFormData', async () => {
+    const result = await processFormDataWithFiles([['user.photo', avatar]], { pathSyntax: 'dot', hash: 'SHA-256' })
+
+    expect(result.success && result.data).toEqual({
+      user: { photo: expect.objectContaining({ name: 'avatar.svg', hash: expect.stringMatching(/^[0-9a-f]{64}$/) }) },
+    })
+  })
+})
+
+describe('describeFile', () => {
+  const file = new File(['hello'], 'hello.txt', { type: 'text/plain', lastModified: 1000 })
+
+  it('should add a hash of the contents', async () => {
+    expect(await describeFile(file, { hash: 'SHA-256' })).toEqual({
+      name: 'hello.txt',
+      size: 5,
+      type: 'text/plain',
+      lastModified: 1000,
+      hash: '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+    })
+  })
+
+  it('should add a data URL', async () => {
+    expect((await describeFile(file, { dataUrl: true })).dataUrl).toBe('data:text/plain;base64,aGVsbG8=')
+    expect((await describeFile(new File([new Uint8Array([0, 255])], 'raw'), { dataUrl: true })).dataUrl).toBe(
+      'data:application/octet-stream;base64,AP8='
+    )
+  })
+})
+
+describe('fileReplacer', () => {
+  it('should write files as metadata in JSON', () => {
+    const file = new File(['hello'], 'hello.txt', { type: 'text/plain', lastModified: 1000 })
+
+    expect(JSON.parse(JSON.stringify({ upload: [file] }, fileReplacer))).toEqual({
+      upload: [{ name: 'hello.txt', size: 5, type: 'text/plain', lastModified: 1000 }],
+    })
+  })
+})
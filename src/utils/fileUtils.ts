@@ -0,0 +1,193 @@
+import {
+  FormDataInput,
+  isPlainObject,
+  PathSegment,
+  processFormDataWithSourceMap,
+  ProcessFormDataOptions,
+} from './formUtils'
+import { FieldError, matchesMimeType, SchemaResult } from './schemaUtils'
+
+/**
+ * Type definitions for file handling
+ */
+export interface FileDescriptor {
+  name: string
+  size: number
+  type: string
+  lastModified: number
+  // Hex digest of the contents, when a hash algorithm is requested
+  hash?: string
+  // The contents as a base64 `data:` URL, when requested
+  dataUrl?: string
+}
+
+export type DescribedFormValue = string | FileDescriptor | null
+
+export interface DescribedFormData {
+  [key: string]: DescribedFormValue | DescribedFormData | Array<DescribedFormValue | DescribedFormData>
+}
+
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'
+
+export interface DescribeFileOptions {
+  hash?: HashAlgorithm
+  dataUrl?: boolean
+}
+
+export interface FileRules {
+  // Mime types, with `*` wildcards, e.g. `['image/*', 'application/pdf']`
+  accept?: string[]
+  // File name extensions, with or without the dot, e.g. `['.pdf', 'png']`
+  extensions?: string[]
+  // Maximum size of each file in bytes
+  maxSize?: number
+}
+
+export interface FileHandlingOptions extends ProcessFormDataOptions, FileRules, DescribeFileOptions {}
+
+/**
+ * Reads the contents of a file
+ * @param file - The file to read
+ * @returns The bytes, copied into this realm
+ */
+async function readBytes(file: Blob): Promise<Uint8Array> {
+  // FileReader covers environments whose Blob predates arrayBuffer()
+  const buffer =
+    typeof file.arrayBuffer === 'function'
+      ? await file.arrayBuffer()
+      : await new Promise<ArrayBuffer>((resolve, reject) => {
+          const reader = new FileReader()
+          reader.onload = () => resolve(reader.result as ArrayBuffer)
+          reader.onerror = () => reject(reader.error)
+          reader.readAsArrayBuffer(file)
+        })
+  return Uint8Array.from(new Uint8Array(buffer))
+}
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked so large files do not exceed the argument limit of String.fromCharCode
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Describes a file with JSON-safe metadata
+ * @param file - The file to describe
+ * @param options - Whether to add a hash of the contents and a data URL
+ * @returns The name, size, type and lastModified, plus the requested extras
+ */
+export async function describeFile(file: File, options: DescribeFileOptions = {}): Promise<FileDescriptor> {
+  const descriptor: FileDescriptor = {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+  }
+  if (!options.hash && !options.dataUrl) return descriptor
+
+  const bytes = await readBytes(file)
+  if (options.hash) {
+    descriptor.hash = toHex(new Uint8Array(await crypto.subtle.digest(options.hash, bytes)))
+  }
+  if (options.dataUrl) {
+    descriptor.dataUrl = `data:${file.type || 'application/octet-stream'};base64,${toBase64(bytes)}`
+  }
+  return descriptor
+}
+
+/**
+ * A `JSON.stringify` replacer that writes files as their metadata instead of `{}`
+ * @param _key - The property name
+ * @param value - The property value
+ * @returns The value, with files replaced by descriptors
+ */
+export function fileReplacer(_key: string, value: unknown): unknown {
+  return value instanceof File
+    ? { name: value.name, size: value.size, type: value.type, lastModified: value.lastModified }
+    : value
+}
+
+// A file input left empty submits a nameless, empty file
+const isEmptyFile = (file: File): boolean => file.size === 0 && file.name === ''
+
+const normalizeExtension = (extension: string): string => extension.replace(/^\./, '').toLowerCase()
+
+/**
+ * Checks a file against the rules
+ * @param file - The submitted file
+ * @param rules - Accepted mime types, extensions and maximum size
+ * @returns The problems found, without the field name
+ */
+function checkFile(file: File, rules: FileRules): Array<Pick<FieldError, 'code' | 'message'>> {
+  const problems: Array<Pick<FieldError, 'code' | 'message'>> = []
+
+  if (rules.accept && !rules.accept.some(pattern => matchesMimeType(file.type, pattern))) {
+    problems.push({ code: 'invalid_file_type', message: `File type ${file.type || 'unknown'} is not allowed` })
+  }
+  if (rules.extensions) {
+    const separator = file.name.lastIndexOf('.')
+    const extension = separator === -1 ? '' : file.name.substring(separator + 1).toLowerCase()
+    if (!rules.extensions.some(allowed => normalizeExtension(allowed) === extension)) {
+      problems.push({
+        code: 'invalid_file_extension',
+        message: `Files must end in ${rules.extensions.map(allowed => `.${normalizeExtension(allowed)}`).join(', ')}`,
+      })
+    }
+  }
+  if (rules.maxSize !== undefined && file.size > rules.maxSize) {
+    problems.push({ code: 'file_too_large', message: `File must be at most ${rules.maxSize} bytes` })
+  }
+  return problems
+}
+
+/**
+ * Processes form data and replaces every uploaded file with a JSON-safe descriptor,
+ * rejecting files that break the rules. File inputs left empty are removed, so a
+ * `multiple` input named `attachments[]` gives an array of the chosen files only.
+ * @param data - The data to process
+ * @param options - File rules, descriptor extras and options passed through to processFormData
+ * @returns The data with file descriptors, or the file errors named after the submitted inputs
+ */
+export async function processFormDataWithFiles(
+  data: FormDataInput,
+  options: FileHandlingOptions = {}
+): Promise<SchemaResult<DescribedFormData>> {
+  const { accept, extensions, maxSize, hash, dataUrl, ...processOptions } = options
+  const { result, sourceMap } = processFormDataWithSourceMap(data, processOptions)
+  const errors: FieldError[] = []
+
+  // path is where the value ends up in the output, and sourcePath where it is in the processed result,
+  // which differ once empty files are removed from an array
+  const walk = async (value: unknown, path: PathSegment[], sourcePath: PathSegment[]): Promise<unknown> => {
+    if (value instanceof File) {
+      const problems = checkFile(value, { accept, extensions, maxSize })
+      problems.forEach(problem => errors.push({ field: sourceMap.fieldNameOf(sourcePath), path, ...problem }))
+      // Rejected files are not read
+      return describeFile(value, problems.length > 0 ? {} : { hash, dataUrl })
+    }
+    if (Array.isArray(value)) {
+      const kept = value
+        .map((item, index) => [item, index] as const)
+        .filter(([item]) => !(item instanceof File && isEmptyFile(item)))
+      return Promise.all(kept.map(([item, index], position) => walk(item, [...path, position], [...sourcePath, index])))
+    }
+    // Dates and other values that are not plain objects are kept as they are
+    if (isPlainObject(value)) {
+      const output: Array<[string, unknown]> = []
+      for (const [key, child] of Object.entries(value)) {
+        if (child instanceof File && isEmptyFile(child)) continue
+        output.push([key, await walk(child, [...path, key], [...sourcePath, key])])
+      }
+      return Object.fromEntries(output)
+    }
+    return value
+  }
+
+  const described = (await walk(result, [], [])) as DescribedFormData
+  return errors.length > 0 ? { success: false, errors } : { success: true, data: described }
+}
@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest'
+
+import { flattenToEntries, toFormData } from './flattenUtils'
+import { processFormData, ProcessedFormData, toFieldName } from './formUtils'
+
+describe('flattenToEntries', () => {
+  it('should flatten simple fields', () => {
+    const entries = flattenToEntries({ name: 'John Doe', email: 'john@example.com' })
+
+    expect(entries).toEqual([
+      ['name', 'John Doe'],
+      ['email', 'john@example.com'],
+    ])
+  })
+
+  it('should flatten arrays of objects with nested arrays', () => {
+    const entries = flattenToEntries({
+      profile: [{ name: 'John Doe', tags: ['developer', 'javascript'] }],
+    })
+
+    expect(entries).toEqual([
+      ['profile[0][name]', 'John Doe'],
+      ['profile[0][tags][0]', 'developer'],
+      ['profile[0][tags][1]', 'javascript'],
+    ])
+  })
+
+  it('should use empty brackets for leaf arrays with the brackets index style', () => {
+    const entries = flattenToEntries({ tags: ['a', 'b'], profile: [{ name: 'John' }] }, { indexStyle: 'brackets' })
+
+    expect(entries).toEqual([
+      ['tags[]', 'a'],
+      ['tags[]', 'b'],
+      ['profile[0][name]', 'John'],
+    ])
+  })
+
+  it('should repeat the field name for leaf arrays with the repeat index style', () => {
+    const entries = flattenToEntries({ user: { roles: ['admin', 'editor'] } }, { indexStyle: 'repeat' })
+
+    expect(entries).toEqual([
+      ['user[roles]', 'admin'],
+      ['user[roles]', 'editor'],
+    ])
+  })
+
+  it('should emit nulls as empty strings unless skipNulls is set', () => {
+    const data = { name: 'John', nickname: null, address: { city: null } }
+
+    expect(flattenToEntries(data)).toEqual([
+      ['name', 'John'],
+      ['nickname', ''],
+      ['address[city]', ''],
+    ])
+    expect(flattenToEntries(data, { skipNulls: true })).toEqual([['name', 'John']])
+  })
+
+  it('should emit nothing for empty arrays and objects', () => {
+    expect(flattenToEntries({ name: 'John', tags: [], address: {}, rows: [{}] })).toEqual([['name', 'John']])
+  })
+
+  it('should stringify numbers, booleans and dates from API records', () => {
+    const entries = flattenToEntries({
+      age: 30,
+      active: true,
+      createdAt: new Date('2024-01-02T03:04:05.000Z'),
+    })
+
+    expect(entries).toEqual([
+      ['age', '30'],
+      ['active', 'true'],
+      ['createdAt', '2024-01-02T03:04:05.000Z'],
+    ])
+  })
+
+  it('should keep File values as-is', () => {
+    const avatar = new File(['avatar'], 'avatar.png', { type: 'image/png' })
+    const entries = flattenToEntries({ profile: [{ avatar }] })
+
+    expect(entries).toEqual([['profile[0][avatar]', avatar]])
+    expect(entries[0][1]).toBe(avatar)
+  })
+
+  it('should build field names with a custom function', () => {
+    const entries = flattenToEntries(
+      { user: { name: 'John' }, tags: ['a'] },
+      { fieldName: segments => toFieldName(segments, 'dot') }
+    )
+
+    expect(entries).toEqual([
+      ['user.name', 'John'],
+      ['tags.0', 'a'],
+    ])
+  })
+
+  it('should convert keys to the input case and map aliases back to their fields', () => {
+    const aliases = { fullName: 'name', 'profile[][emailAddr]': 'email' }
+    const record = {
+      name: 'John',
+      home_address: { zip_code: '12345' },
+      profile: [{ email: 'john@example.com', phone_no: '555' }],
+    }
+
+    const entries = flattenToEntries(record, { keyTransform: 'camel', aliases })
+
+    expect(entries).toEqual([
+      ['fullName', 'John'],
+      ['homeAddress[zipCode]', '12345'],
+      ['profile[0][emailAddr]', 'john@example.com'],
+      ['profile[0][phoneNo]', '555'],
+    ])
+    expect(processFormData(entries, { keyTransform: 'snake', aliases })).toEqual(record)
+  })
+})
+
+describe('toFormData', () => {
+  // Expected results from the processFormData suite; each must survive a round trip
+  const cases: Array<[string, ProcessedFormData]> = [
+    ['simple fields', { name: 'John Doe', email: 'john@example.com', age: '30' }],
+    ['simple arrays', { tags: ['javascript', 'react', 'typescript'] }],
+    [
+      'arrays of objects',
+      {
+        profile: [
+          { name: 'John Doe', email: 'john@example.com' },
+          { name: 'Jane Smith', email: 'jane@example.com' },
+        ],
+      },
+    ],
+    [
+      'nested objects',
+      {
+        user: {
+          name: 'John Doe',
+          contact: { email: 'john@example.com', phone: '123-456-7890' },
+          address: { street: '123 Main St', city: 'Anytown', zip: '12345' },
+        },
+      },
+    ],
+    [
+      'complex mixed structures',
+      {
+        contactMethod: 'email',
+        profile: [
+          { name: 'John Doe', email: 'john@example.com' },
+          { name: 'Jane Smith', email: 'jane@example.com' },
+        ],
+        ssns: ['123-45-6789', '987-65-4321'],
+        user: { address: { street: '123 Main St', city: 'Anytown' } },
+      },
+    ],
+    [
+      'deeply nested array objects',
+      {
+        data: [
+          {
+            items: [
+              { name: 'Item 1', price: '10.99' },
+              { name: 'Item 2', price: '20.99' },
+            ],
+          },
+          { items: [{ name: 'Item 3', price: '30.99' }] },
+        ],
+      },
+    ],
+    [
+      'nested arrays within objects',
+      {
+        profile: [
+          { name: 'John Doe', tags: ['developer', 'javascript'] },
+          { name: 'Jane Smith', tags: ['designer', 'ui/ux', 'figma'] },
+        ],
+      },
+    ],
+    [
+      'arrays of preference objects',
+      {
+        profile: [
+          { name: 'John Doe', prefs: [{ email: 'daily' }, { sms: 'weekly' }] },
+          { name: 'Jane Smith', prefs: [{ email: 'weekly' }, { sms: 'never' }] },
+        ],
+      },
+    ],
+    ['empty form data', {}],
+  ]
+
+  it.each(cases)('should round-trip %s through processFormData', (_, expected) => {
+    expect(processFormData(toFormData(expected))).toEqual(expected)
+  })
+
+  it.each(cases)('should be stable when re-flattening parsed %s', (_, expected) => {
+    const once = processFormData(toFormData(expected))
+    const twice = processFormData(toFormData(once))
+
+    expect(flattenToEntries(twice)).toEqual(flattenToEntries(once))
+  })
+
+  it('should round-trip leaf arrays written with empty brackets or repeated names', () => {
+    const data = { tags: ['javascript', 'react'], user: { roles: ['admin'] } }
+
+    expect(processFormData(toFormData(data, { indexStyle: 'brackets' }))).toEqual(data)
+    expect(processFormData(toFormData({ tags: data.tags }, { indexStyle: 'repeat' }))).toEqual({ tags: data.tags })
+  })
+
+  it('should drop empty arrays and objects in a round trip', () => {
+    expect(processFormData(toFormData({ name: 'John', tags: [], address: {} }))).toEqual({ name: 'John' })
+  })
+
+  it('should round-trip File values in arrays of objects', () => {
+    const resume = new File(['resume'], 'resume.pdf', { type: 'application/pdf' })
+    const data = { profile: [{ name: 'John Doe', resume }] }
+
+    const result = processFormData(toFormData(data))
+
+    expect(result).toEqual(data)
+    expect((result.profile as Array<Record<string, unknown>>)[0].resume).toBe(resume)
+  })
+})
@@ -0,0 +1,118 @@
+import { isPlainContainer } from './formUtils'
+import { createInverseKeyMapper, KeyMappingOptions } from './keyUtils'
+
+/**
+ * Type definitions for flattening nested objects back into form entries
+ */
+export type FormDataEntry = [string, string | File]
+
+/**
+ * How array items are named when flattened:
+ * - `indices`: `tags[0]`, `tags[1]`
+ * - `brackets`: `tags[]`, `tags[]`
+ * - `repeat`: `tags`, `tags` (a single-item array parses back as a plain value)
+ *
+ * Arrays that contain objects or arrays always use `indices`, since the
+ * other styles cannot tell which leaves belong to the same item.
+ */
+export type IndexStyle = 'indices' | 'brackets' | 'repeat'
+
+/**
+ * Flattening options. `keyTransform` is the case of the input names, e.g. 'camel' to
+ * prefill camelCase inputs from snake_case data, and `aliases` takes the same table
+ * passed to processFormData, mapping output keys back to their field names.
+ */
+export interface FlattenOptions extends KeyMappingOptions {
+  indexStyle?: IndexStyle
+  // Omit null/undefined values instead of emitting them as empty strings
+  skipNulls?: boolean
+  // Builds a field name from its segments, e.g. with toFieldName for dot notation (default: bracket notation)
+  fieldName?: (segments: string[]) => string
+}
+
+/**
+ * Builds the field name for a child key using bracket notation
+ * @param prefix - The field name of the parent, or an empty string at the top level
+ * @param key - The child key or array index
+ * @returns The combined field name, e.g. `profile[0][name]`
+ */
+function buildKey(prefix: string, key: string): string {
+  return prefix === '' ? key : `${prefix}[${key}]`
+}
+
+/**
+ * Converts a leaf value into something FormData can hold
+ * @param value - A leaf value from the nested object
+ * @returns The value as a string or File
+ */
+function toEntryValue(value: unknown): string | File {
+  if (value instanceof File) return value
+  if (value instanceof Blob) return new File([value], 'blob', { type: value.type })
+  if (value instanceof Date) return value.toISOString()
+  if (value === null || value === undefined) return ''
+  return String(value)
+}
+
+/**
+ * Flattens a nested object into a list of `[name, value]` entries using the same
+ * bracket notation understood by `processFormData`. Empty arrays and objects have no
+ * leaves, so they produce no entries and are missing once the entries are parsed again.
+ * @param data - The nested object to flatten, e.g. the result of `processFormData`
+ * @param options - Index style, null handling and key renaming
+ * @returns Entries in document order, ready to append to a FormData
+ */
+export function flattenToEntries(data: Record<string, unknown>, options: FlattenOptions = {}): FormDataEntry[] {
+  const { indexStyle = 'indices', skipNulls = false, fieldName } = options
+  const mapKeys = createInverseKeyMapper(options)
+  const entries: FormDataEntry[] = []
+
+  // Segments are collected first so keys can be renamed with their full path known
+  const toName = (segments: string[]): string => {
+    const renamed = mapKeys ? mapKeys(segments) : segments
+    return fieldName ? fieldName(renamed) : renamed.reduce((name, segment) => buildKey(name, segment), '')
+  }
+
+  const walk = (value: unknown, segments: string[]): void => {
+    if (value === null || value === undefined) {
+      if (!skipNulls) entries.push([toName(segments), ''])
+      return
+    }
+
+    if (Array.isArray(value)) {
+      const hasContainers = value.some(isPlainContainer)
+      value.forEach((item, index) => {
+        if (hasContainers || indexStyle === 'indices') {
+          walk(item, [...segments, String(index)])
+        } else {
+          walk(item, indexStyle === 'brackets' ? [...segments, ''] : segments)
+        }
+      })
+      return
+    }
+
+    if (isPlainContainer(value)) {
+      Object.entries(value).forEach(([key, child]) => walk(child, [...segments, key]))
+      return
+    }
+
+    entries.push([toName(segments), toEntryValue(value)])
+  }
+
+  Object.entries(data).forEach(([key, value]) => walk(value, [key]))
+
+  return entries
+}
+
+/**
+ * Converts a nested object into a FormData instance using bracket notation
+ * @param data - The nested object to convert
+ * @param options - Index style, null handling and key renaming
+ * @returns FormData that `processFormData` turns back into the same structure, without empty arrays and objects
+ */
+export function toFormData(data: Record<string, unknown>, options: FlattenOptions = {}): FormData {
+  const formData = new FormData()
+  flattenToEntries(data, options).forEach(([key, value]) => {
+    formData.append(key, value)
+  })
+  return formData
+}
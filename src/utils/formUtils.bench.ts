@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { bench, describe } from 'vitest'
+
+import { processFormData } from './formUtils'
+
+// Limits are lifted so the largest inputs are measured rather than rejected
+const options = { maxKeys: Infinity, maxArrayIndex: Infinity }
+
+// Each case runs at least a few times, even when a single run takes longer than the time budget
+const benchOptions = { time: 1000, iterations: 5 }
+
+/**
+ * Builds the fields a bulk-edit grid submits: three columns and a checkbox group per row
+ * @param fieldCount - The number of fields
+ * @returns The entries, as FormData would hold them
+ */
+function createGridEntries(fieldCount: number): Array<[string, string]> {
+  const entries: Array<[string, string]> = []
+  for (let row = 0; entries.length < fieldCount; row++) {
+    entries.push(
+      [`rows[${row}][id]`, String(row)],
+      [`rows[${row}][name]`, `Item ${row}`],
+      [`rows[${row}][price]`, (row * 1.5).toFixed(2)],
+      [`rows[${row}][tags][]`, 'a'],
+      [`rows[${row}][tags][]`, 'b']
+    )
+  }
+  return entries.slice(0, fieldCount)
+}
+
+/**
+ * Builds fields appended with empty brackets and a checkbox group as long as the input
+ * @param fieldCount - The number of fields
+ * @returns The entries
+ */
+function createAppendedEntries(fieldCount: number): Array<[string, string]> {
+  return Array.from({ length: fieldCount }, (_, index): [string, string] =>
+    index % 2 === 0 ? [`rows[][name]`, `Item ${index}`] : ['selected[]', String(index)]
+  )
+}
+
+describe.each([1_000, 10_000, 100_000])('processFormData with %i fields', fieldCount => {
+  const grid = createGridEntries(fieldCount)
+  const appended = createAppendedEntries(fieldCount)
+  const query = new URLSearchParams(grid).toString()
+
+  bench(
+    'indexed grid rows',
+    () => {
+      processFormData(grid, options)
+    },
+    benchOptions
+  )
+
+  bench(
+    'empty bracket rows and checkbox groups',
+    () => {
+      processFormData(appended, options)
+    },
+    benchOptions
+  )
+
+  bench(
+    'urlencoded body',
+    () => {
+      processFormData(query, options)
+    },
+    benchOptions
+  )
+})
@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { DEFAULT_LIMITS, FormDataParseError, processFormData } from './formUtils'
+
+describe('processFormData hardening', () => {
+  // Helper function to create a FormData object from entries
+  function createFormData(entries: Array<[string, string]>): FormData {
+    const formData = new FormData()
+    entries.forEach(([key, value]) => {
+      formData.append(key, value)
+    })
+    return formData
+  }
+
+  // Helper function to capture the error thrown by processFormData
+  function catchError(fn: () => unknown): FormDataParseError {
+    try {
+      fn()
+    } catch (error) {
+      if (error instanceof FormDataParseError) return error
+      throw error
+    }
+    throw new Error('Expected processFormData to throw')
+  }
+
+  afterEach(() => {
+    // Guard against a failing test leaking pollution into the rest of the suite
+    delete (Object.prototype as Record<string, unknown>).polluted
+  })
+
+  describe('Prototype pollution', () => {
+    it.each([
+      '__proto__[polluted]',
+      'user[__proto__][polluted]',
+      'user[constructor][prototype][polluted]',
+      'items[0][__proto__][polluted]',
+      'constructor[prototype][polluted]',
+    ])('should strip %s without touching Object.prototype', key => {
+      const formData = createFormData([
+        [key, 'yes'],
+        ['name', 'John Doe'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(result).toEqual({ name: 'John Doe' })
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
+    it('should strip dangerous simple fields', () => {
+      const formData = createFormData([
+        ['__proto__', 'yes'],
+        ['constructor', 'yes'],
+        ['name', 'John Doe'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(Object.keys(result)).toEqual(['name'])
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+    })
+
+    it('should strip an own __proto__ key from parsed JSON input', () => {
+      const jsonData = JSON.parse('{"__proto__": {"polluted": "yes"}, "user[name]": "John Doe"}')
+
+      const result = processFormData(jsonData)
+
+      expect(result).toEqual({ user: { name: 'John Doe' } })
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
+    it('should throw DANGEROUS_KEY when dangerous keys are configured to error', () => {
+      const formData = createFormData([['user[__proto__][polluted]', 'yes']])
+
+      const error = catchError(() => processFormData(formData, { dangerousKeys: 'error' }))
+
+      expect(error.code).toBe('DANGEROUS_KEY')
+      expect(error.field).toBe('user[__proto__][polluted]')
+    })
+
+    it('should allow keys that only contain dangerous words', () => {
+      const formData = createFormData([
+        ['user[constructorName]', 'Acme'],
+        ['proto', 'http'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(result).toEqual({ user: { constructorName: 'Acme' }, proto: 'http' })
+    })
+
+    it.each([
+      ['toString[a]', { toString: { a: '1' } }],
+      ['hasOwnProperty[0]', { hasOwnProperty: ['1'] }],
+      ['valueOf[]', { valueOf: ['1'] }],
+      ['user[toString][a]', { user: { toString: { a: '1' } } }],
+      ['items[0][hasOwnProperty][]', { items: [{ hasOwnProperty: ['1'] }] }],
+    ])('should parse %s, named after an Object.prototype member, as a regular field', (key, expected) => {
+      const result = processFormData(createFormData([[key, '1']]))
+
+      expect(result).toEqual(expected)
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+    })
+
+    it('should group fields named after Object.prototype members', () => {
+      const result = processFormData(
+        createFormData([
+          ['toString[a]', '1'],
+          ['toString[b]', '2'],
+          ['hasOwnProperty[0]', 'x'],
+          ['hasOwnProperty[1]', 'y'],
+          ['valueOf', 'v'],
+        ])
+      )
+
+      expect(result).toEqual({ toString: { a: '1', b: '2' }, hasOwnProperty: ['x', 'y'], valueOf: 'v' })
+    })
+  })
+
+  describe('Resource limits', () => {
+    it('should reject field names nested deeper than maxDepth', () => {
+      const key = 'a' + '[b]'.repeat(DEFAULT_LIMITS.maxDepth + 1)
+
+      const error = catchError(() => processFormData(createFormData([[key, 'deep']])))
+
+      expect(error.code).toBe('MAX_DEPTH')
+      expect(error.field).toBe(key)
+    })
+
+    it('should accept field names at exactly maxDepth', () => {
+      const formData = createFormData([['a[b][c]', 'ok']])
+
+      expect(processFormData(formData, { maxDepth: 2 })).toEqual({ a: { b: { c: 'ok' } } })
+      expect(catchError(() => processFormData(formData, { maxDepth: 1 })).code).toBe('MAX_DEPTH')
+    })
+
+    it('should reject more fields than maxKeys', () => {
+      const entries: Array<[string, string]> = Array.from({ length: 6 }, (_, i) => [`field${i}`, 'x'])
+
+      const error = catchError(() => processFormData(createFormData(entries), { maxKeys: 5 }))
+
+      expect(error.code).toBe('MAX_KEYS')
+    })
+
+    it('should reject huge array indices before allocating anything', () => {
+      const formData = createFormData([['a[999999999]', 'x']])
+
+      const error = catchError(() => processFormData(formData))
+
+      expect(error.code).toBe('MAX_ARRAY_INDEX')
+      expect(error.field).toBe('a[999999999]')
+    })
+
+    it('should reject huge nested array indices', () => {
+      const formData = createFormData([['profile[0][tags][50]', 'x']])
+
+      const error = catchError(() => processFormData(formData, { maxArrayIndex: 10 }))
+
+      expect(error.code).toBe('MAX_ARRAY_INDEX')
+    })
+
+    it('should reject field names longer than maxFieldLength', () => {
+      const formData = createFormData([['a'.repeat(DEFAULT_LIMITS.maxFieldLength + 1), 'x']])
+
+      const error = catchError(() => processFormData(formData))
+
+      expect(error.code).toBe('MAX_FIELD_LENGTH')
+      expect(error.field.length).toBeLessThanOrEqual(100)
+    })
+
+    it('should report violations as FormDataParseError instances', () => {
+      const formData = createFormData([['a[999999999]', 'x']])
+
+      expect(() => processFormData(formData)).toThrow(FormDataParseError)
+      expect(() => processFormData(formData)).toThrow(/array index 999999999/)
+    })
+  })
+
+  describe('Unhardened mode', () => {
+    it('should skip limits when hardened is disabled', () => {
+      const formData = createFormData([
+        ['a[999999999]', 'x'],
+        ['b' + '[c]'.repeat(30), 'deep'],
+      ])
+
+      const result = processFormData(formData, { hardened: false })
+
+      expect(result.a).toEqual(['x'])
+    })
+
+    it.each([
+      ['parsed JSON', JSON.parse('{"__proto__": {"polluted": "yes"}, "name": "John Doe"}')],
+      [
+        'FormData',
+        createFormData([
+          ['__proto__[polluted]', 'yes'],
+          ['name', 'John Doe'],
+        ]),
+      ],
+    ])('should keep __proto__ from %s as an own key without replacing the prototype', (_, input) => {
+      const result = processFormData(input, { hardened: false })
+
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+      expect(Object.keys(result).sort()).toEqual(['__proto__', 'name'])
+      expect(Object.getOwnPropertyDescriptor(result, '__proto__')?.value).toEqual({ polluted: 'yes' })
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
+    it('should keep nested __proto__ keys as own keys', () => {
+      const result = processFormData('user[__proto__][role]=admin&user[__proto__][tags][]=a', { hardened: false })
+      const user = result.user as Record<string, unknown>
+
+      expect(Object.getPrototypeOf(user)).toBe(Object.prototype)
+      expect(Object.getOwnPropertyDescriptor(user, '__proto__')?.value).toEqual({ role: 'admin', tags: ['a'] })
+    })
+  })
+})
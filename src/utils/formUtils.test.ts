@@ -1,6 +1,13 @@
 import { describe, expect, it } from 'vitest'
 
-import { processFormData } from './formUtils'
+import {
+  FormDataParseError,
+  processFormData,
+  processFormDataWithDiagnostics,
+  processFormDataWithSourceMap,
+  ProcessFormDataOptions,
+  toFieldName,
+} from './formUtils'
 
 describe('processFormData', () => {
   // Helper function to create a FormData object from a record
@@ -12,6 +19,15 @@ describe('processFormData', () => {
     return formData
   }
 
+  // Helper function to create a FormData object with repeated keys
+  function createFormDataFromEntries(entries: Array<[string, string]>): FormData {
+    const formData = new FormData()
+    entries.forEach(([key, value]) => {
+      formData.append(key, value)
+    })
+    return formData
+  }
+
   it('should process simple fields correctly', () => {
     const formData = createFormData({
       name: 'John Doe',
@@ -210,6 +226,19 @@ describe('processFormData', () => {
     })
   })
 
+  it('should keep File values in arrays and nested objects', () => {
+    const resume = new File(['resume'], 'resume.pdf', { type: 'application/pdf' })
+    const photo = new File(['photo'], 'photo.png', { type: 'image/png' })
+    const formData = new FormData()
+    formData.append('attachments[0]', resume)
+    formData.append('user[photo]', photo)
+
+    const result = processFormData(formData)
+
+    expect(result.attachments).toEqual([resume])
+    expect((result.user as Record<string, unknown>).photo).toBe(photo)
+  })
+
   it('should handle empty form data', () => {
     const formData = new FormData()
     const result = processFormData(formData)
@@ -295,6 +324,584 @@ describe('processFormData', () => {
     })
   })
 
+  it('should read the options on every call', () => {
+    const options: ProcessFormDataOptions = { repeatedKeys: 'first' }
+
+    expect(processFormData('a=1&a=2', options)).toEqual({ a: '1' })
+    options.repeatedKeys = 'last'
+    expect(processFormData('a=1&a=2', options)).toEqual({ a: '2' })
+  })
+
+  describe('Input Types', () => {
+    const expected = {
+      name: 'John Doe',
+      profile: [{ name: 'Jane Smith', tags: ['designer', 'figma'] }],
+    }
+
+    it('should process URLSearchParams', () => {
+      const params = new URLSearchParams(
+        'name=John+Doe&profile[0][name]=Jane+Smith&profile[0][tags][]=designer&profile[0][tags][]=figma'
+      )
+
+      expect(processFormData(params)).toEqual(expected)
+    })
+
+    it('should process raw query strings and urlencoded bodies', () => {
+      const query =
+        '?name=John+Doe&profile%5B0%5D%5Bname%5D=Jane%20Smith&profile[0][tags][0]=designer&profile[0][tags][1]=figma'
+
+      expect(processFormData(query)).toEqual(expected)
+    })
+
+    it('should decode query strings with the configured charset', () => {
+      expect(processFormData('user[city]=S%E3o+Paulo', { charset: 'iso-8859-1' })).toEqual({
+        user: { city: 'São Paulo' },
+      })
+    })
+
+    it('should process iterables of entries', () => {
+      const entries: Array<[string, string]> = [
+        ['name', 'John Doe'],
+        ['profile[0][name]', 'Jane Smith'],
+        ['profile[0][tags][0]', 'designer'],
+        ['profile[0][tags][1]', 'figma'],
+      ]
+
+      expect(processFormData(entries)).toEqual(expected)
+      expect(processFormData(new Map(entries))).toEqual(expected)
+    })
+
+    it('should track positions for query string input', () => {
+      const { sourceMap } = processFormDataWithSourceMap('a=1&tags[]=x&tags[]=y')
+
+      expect(sourceMap.sourcesOf(['tags', 1])).toEqual([{ field: 'tags[]', index: 2 }])
+    })
+  })
+
+  describe('Repeated Keys', () => {
+    it('should collect checkbox groups into arrays by default', () => {
+      const formData = createFormDataFromEntries([
+        ['interests', 'music'],
+        ['interests', 'sports'],
+        ['interests', 'travel'],
+        ['name', 'John Doe'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(result).toEqual({
+        interests: ['music', 'sports', 'travel'],
+        name: 'John Doe',
+      })
+    })
+
+    it('should collect repeated nested keys into arrays', () => {
+      const formData = createFormDataFromEntries([
+        ['profile[0][name]', 'John Doe'],
+        ['profile[0][roles]', 'admin'],
+        ['profile[0][roles]', 'editor'],
+        ['user[colors]', 'red'],
+        ['user[colors]', 'blue'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(result).toEqual({
+        profile: [{ name: 'John Doe', roles: ['admin', 'editor'] }],
+        user: { colors: ['red', 'blue'] },
+      })
+    })
+
+    it('should append values for empty brackets', () => {
+      const formData = createFormDataFromEntries([
+        ['tags[]', 'javascript'],
+        ['tags[]', ''],
+        ['tags[]', 'react'],
+        ['user[roles][]', 'admin'],
+        ['user[roles][]', 'editor'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(result).toEqual({
+        tags: ['javascript', 'react'],
+        user: { roles: ['admin', 'editor'] },
+      })
+    })
+
+    it('should start a new array item for each empty bracket followed by a key', () => {
+      const formData = createFormDataFromEntries([
+        ['items[][name]', 'Item 1'],
+        ['items[][name]', 'Item 2'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(result).toEqual({
+        items: [{ name: 'Item 1' }, { name: 'Item 2' }],
+      })
+    })
+
+    it('should append empty brackets after explicit indices', () => {
+      const formData = createFormDataFromEntries([
+        ['tags[0]', 'javascript'],
+        ['tags[3]', 'react'],
+        ['tags[]', 'typescript'],
+      ])
+
+      const result = processFormData(formData)
+
+      expect(result).toEqual({
+        tags: ['javascript', 'react', 'typescript'],
+      })
+    })
+
+    it('should append empty brackets after indices submitted in between', () => {
+      const result = processFormData('items[][a]=1&items[3][a]=2&items[][a]=3', { compactArrays: false })
+
+      expect(result).toEqual({ items: [{ a: '1' }, null, null, { a: '2' }, { a: '3' }] })
+    })
+
+    it('should not modify arrays passed in as values', () => {
+      const tags = ['a']
+
+      expect(
+        processFormData([
+          ['tags', tags],
+          ['tags', 'b'],
+          ['tags', 'c'],
+        ])
+      ).toEqual({ tags: ['a', 'b', 'c'] })
+      expect(tags).toEqual(['a'])
+    })
+
+    it('should keep the first value with the first policy', () => {
+      const formData = createFormDataFromEntries([
+        ['interests', 'music'],
+        ['interests', 'sports'],
+        ['user[color]', 'red'],
+        ['user[color]', 'blue'],
+      ])
+
+      const result = processFormData(formData, { repeatedKeys: 'first' })
+
+      expect(result).toEqual({
+        interests: 'music',
+        user: { color: 'red' },
+      })
+    })
+
+    it('should keep the last value with the last policy', () => {
+      const formData = createFormDataFromEntries([
+        ['interests', 'music'],
+        ['interests', 'sports'],
+        ['user[color]', 'red'],
+        ['user[color]', 'blue'],
+      ])
+
+      const result = processFormData(formData, { repeatedKeys: 'last' })
+
+      expect(result).toEqual({
+        interests: 'sports',
+        user: { color: 'blue' },
+      })
+    })
+
+    it('should throw a FormDataParseError with the error policy', () => {
+      const formData = createFormDataFromEntries([
+        ['user[color]', 'red'],
+        ['user[color]', 'blue'],
+      ])
+
+      expect(() => processFormData(formData, { repeatedKeys: 'error' })).toThrow(FormDataParseError)
+      expect(() => processFormData(formData, { repeatedKeys: 'error' })).toThrow(
+        expect.objectContaining({ code: 'DUPLICATE_KEY', field: 'user[color]' })
+      )
+    })
+
+    it('should not treat empty brackets as repeated keys with the error policy', () => {
+      const formData = createFormDataFromEntries([
+        ['tags[]', 'javascript'],
+        ['tags[]', 'react'],
+      ])
+
+      const result = processFormData(formData, { repeatedKeys: 'error' })
+
+      expect(result).toEqual({ tags: ['javascript', 'react'] })
+    })
+  })
+
+  describe('Empty Values', () => {
+    const emptyForm = {
+      name: '',
+      nickname: '   ',
+      'profile[0][name]': 'John Doe',
+      'profile[0][email]': '',
+      'profile[1][name]': '',
+      'profile[1][email]': '',
+      'profile[2][name]': 'Jane Smith',
+      'tags[0]': 'javascript',
+      'tags[1]': '',
+      'user[address][city]': '',
+    }
+
+    it('should drop bracket fields and keep simple fields by default', () => {
+      const result = processFormData(createFormData(emptyForm))
+
+      expect(result).toEqual({
+        name: '',
+        nickname: '   ',
+        profile: [{ name: 'John Doe' }, { name: 'Jane Smith' }],
+        tags: ['javascript'],
+        user: { address: {} },
+      })
+    })
+
+    it('should keep empty strings at every level with the keep policy', () => {
+      const result = processFormData(createFormData(emptyForm), { emptyStrings: 'keep' })
+
+      expect(result).toEqual({
+        name: '',
+        nickname: '   ',
+        profile: [{ name: 'John Doe', email: '' }, { name: 'Jane Smith' }],
+        tags: ['javascript', ''],
+        user: { address: { city: '' } },
+      })
+    })
+
+    it('should drop empty strings at every level with the drop policy', () => {
+      const result = processFormData(createFormData(emptyForm), { emptyStrings: 'drop' })
+
+      expect(result).toEqual({
+        profile: [{ name: 'John Doe' }, { name: 'Jane Smith' }],
+        tags: ['javascript'],
+        user: { address: {} },
+      })
+    })
+
+    it('should convert empty strings to null at every level with the null policy', () => {
+      const result = processFormData(createFormData(emptyForm), { emptyStrings: 'null' })
+
+      expect(result).toEqual({
+        name: null,
+        nickname: null,
+        profile: [{ name: 'John Doe', email: null }, { name: 'Jane Smith' }],
+        tags: ['javascript', null],
+        user: { address: { city: null } },
+      })
+    })
+
+    it('should trim string values when trimStrings is set', () => {
+      const formData = createFormData({
+        name: '  John Doe  ',
+        nickname: '   ',
+        'tags[0]': ' javascript ',
+      })
+
+      expect(processFormData(formData, { trimStrings: true })).toEqual({
+        name: 'John Doe',
+        nickname: '',
+        tags: ['javascript'],
+      })
+      expect(processFormData(formData, { trimStrings: true, emptyStrings: 'drop' })).toEqual({
+        name: 'John Doe',
+        tags: ['javascript'],
+      })
+    })
+
+    it('should keep array positions as null holes when compactArrays is false', () => {
+      const formData = createFormData({
+        'items[0]': 'First',
+        'items[2]': 'Third',
+        'tags[0]': '',
+        'tags[1]': 'react',
+        'profile[0][name]': '',
+        'profile[1][name]': 'Jane Smith',
+      })
+
+      const result = processFormData(formData, { compactArrays: false })
+
+      expect(result).toEqual({
+        items: ['First', null, 'Third'],
+        tags: [null, 'react'],
+        profile: [null, { name: 'Jane Smith' }],
+      })
+    })
+
+    it('should prune empty objects at every level when pruneEmptyObjects is set', () => {
+      const formData = createFormData({
+        'profile[0][name]': 'John Doe',
+        'profile[0][prefs][0][email]': '',
+        'profile[0][prefs][1][sms]': 'weekly',
+        'profile[0][address][city]': '',
+        'user[address][city]': '',
+      })
+
+      const result = processFormData(formData, { pruneEmptyObjects: true })
+
+      expect(result).toEqual({
+        profile: [{ name: 'John Doe', prefs: [{ sms: 'weekly' }] }],
+      })
+    })
+
+    it('should keep empty objects everywhere when pruneEmptyObjects is false', () => {
+      const result = processFormData(createFormData(emptyForm), { pruneEmptyObjects: false })
+
+      expect(result.profile).toEqual([{ name: 'John Doe' }, {}, { name: 'Jane Smith' }])
+    })
+
+    it('should prune objects that only contain nulls', () => {
+      const result = processFormData(createFormData(emptyForm), { emptyStrings: 'null', pruneEmptyObjects: true })
+
+      expect(result).toEqual({
+        name: null,
+        nickname: null,
+        profile: [{ name: 'John Doe', email: null }, { name: 'Jane Smith' }],
+        tags: ['javascript', null],
+      })
+    })
+
+    it('should keep rows stable and distinguish cleared from absent fields', () => {
+      const result = processFormData(createFormData(emptyForm), {
+        emptyStrings: 'null',
+        compactArrays: false,
+        pruneEmptyObjects: false,
+      })
+
+      expect(result).toEqual({
+        name: null,
+        nickname: null,
+        profile: [{ name: 'John Doe', email: null }, { name: null, email: null }, { name: 'Jane Smith' }],
+        tags: ['javascript', null],
+        user: { address: { city: null } },
+      })
+    })
+
+    it('should keep empty repeated values with an explicit policy', () => {
+      const formData = createFormDataFromEntries([
+        ['user[colors]', 'red'],
+        ['user[colors]', ''],
+      ])
+
+      expect(processFormData(formData, { emptyStrings: 'null' })).toEqual({ user: { colors: ['red', null] } })
+      expect(processFormData(formData, { emptyStrings: 'drop' })).toEqual({ user: { colors: 'red' } })
+    })
+  })
+
+  describe('Path Syntax', () => {
+    it('should parse dot notation', () => {
+      const formData = createFormData({
+        'user.address.city': 'Anytown',
+        'user.address.zip': '12345',
+        'items.0.name': 'Item 1',
+        'items.1.name': 'Item 2',
+        'tags.0': 'javascript',
+        name: 'John Doe',
+      })
+
+      const result = processFormData(formData, { pathSyntax: 'dot' })
+
+      expect(result).toEqual({
+        user: { address: { city: 'Anytown', zip: '12345' } },
+        items: [{ name: 'Item 1' }, { name: 'Item 2' }],
+        tags: ['javascript'],
+        name: 'John Doe',
+      })
+    })
+
+    it('should treat brackets as literal characters in dot notation', () => {
+      const formData = createFormData({ 'filters[status]': 'open', 'user.name': 'John Doe' })
+
+      const result = processFormData(formData, { pathSyntax: 'dot' })
+
+      expect(result).toEqual({ 'filters[status]': 'open', user: { name: 'John Doe' } })
+    })
+
+    it('should parse mixed dot and bracket notation', () => {
+      const formData = createFormData({
+        'user[addresses].0.street': '123 Main St',
+        'user[addresses].0.city': 'Anytown',
+        'user.addresses[1][street]': '456 Oak Ave',
+        'profile[0].tags[]': 'developer',
+      })
+
+      const result = processFormData(formData, { pathSyntax: 'mixed' })
+
+      expect(result).toEqual({
+        user: {
+          addresses: [{ street: '123 Main St', city: 'Anytown' }, { street: '456 Oak Ave' }],
+        },
+        profile: [{ tags: ['developer'] }],
+      })
+    })
+
+    it('should produce the same result regardless of syntax', () => {
+      const bracket = createFormData({ 'profile[0][name]': 'John Doe', 'profile[0][tags][0]': 'developer' })
+      const dot = createFormData({ 'profile.0.name': 'John Doe', 'profile.0.tags.0': 'developer' })
+
+      expect(processFormData(dot, { pathSyntax: 'dot' })).toEqual(processFormData(bracket))
+      expect(processFormData(dot, { pathSyntax: 'mixed' })).toEqual(processFormData(bracket))
+      expect(processFormData(bracket, { pathSyntax: 'mixed' })).toEqual(processFormData(bracket))
+    })
+
+    it('should honour backslash escapes for literal dots and brackets', () => {
+      const formData = createFormData({
+        'files.report\\.pdf': 'yes',
+        'meta\\[raw\\].value': 'x',
+        'user[first\\]name]': 'John',
+      })
+
+      const result = processFormData(formData, { pathSyntax: 'mixed' })
+
+      expect(result).toEqual({
+        files: { 'report.pdf': 'yes' },
+        'meta[raw]': { value: 'x' },
+        user: { 'first]name': 'John' },
+      })
+    })
+
+    it('should ignore fields with an unclosed bracket', () => {
+      const formData = createFormData({ 'user[name': 'John', 'user.email': 'john@example.com' })
+
+      expect(processFormData(formData, { pathSyntax: 'mixed' })).toEqual({ user: { email: 'john@example.com' } })
+      expect(processFormData(createFormData({ 'user[name': 'John' }))).toEqual({})
+    })
+
+    it('should ignore text between brackets', () => {
+      expect(processFormData('user[a]x[b]=1&user[c[d]=2&a]b=3')).toEqual({
+        user: { a: { b: '1' }, 'c[d': '2' },
+        'a]b': '3',
+      })
+    })
+
+    it('should not share renamed keys between calls for the same field names', () => {
+      expect(processFormData('user[first_name]=A', { keyTransform: 'camel' })).toEqual({ user: { firstName: 'A' } })
+      expect(processFormData('user[first_name]=A')).toEqual({ user: { first_name: 'A' } })
+    })
+
+    it('should accept a custom path parser', () => {
+      const formData = createFormData({ 'user/address/city': 'Anytown', 'skip/me': 'x' })
+
+      const result = processFormData(formData, {
+        pathSyntax: field => {
+          if (field.startsWith('skip')) return null
+          const [baseName, ...path] = field.split('/')
+          return { baseName, path }
+        },
+      })
+
+      expect(result).toEqual({ user: { address: { city: 'Anytown' } } })
+    })
+
+    it('should apply hardening to dot paths', () => {
+      const formData = createFormData({ 'user.__proto__.polluted': 'yes', 'user.name': 'John' })
+
+      expect(processFormData(formData, { pathSyntax: 'dot' })).toEqual({ user: { name: 'John' } })
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
+    it('should name source map paths in the configured syntax', () => {
+      const formData = createFormData({ 'profile.0.name': '', 'profile.1.name': 'Jane Smith' })
+
+      const { sourceMap } = processFormDataWithSourceMap(formData, { pathSyntax: 'dot' })
+
+      expect(sourceMap.fieldNameOf(['profile', 0, 'name'])).toBe('profile.1.name')
+      expect(sourceMap.fieldNameOf(['profile', 0, 'email'])).toBe('profile.1.email')
+    })
+
+    it('should escape special characters when building field names', () => {
+      expect(toFieldName(['files', 'report.pdf'], 'dot')).toBe('files.report\\.pdf')
+      expect(toFieldName(['meta.data', 'a]b', 0], 'mixed')).toBe('meta\\.data[a\\]b][0]')
+      expect(toFieldName(['profile', 0, 'name'])).toBe('profile[0][name]')
+    })
+  })
+
+  describe('Source Maps', () => {
+    it('should map every leaf back to its field name and position', () => {
+      const formData = createFormData({
+        contactMethod: 'email',
+        'profile[0][name]': 'John Doe',
+        'user[address][city]': 'Anytown',
+      })
+
+      const { result, sourceMap } = processFormDataWithSourceMap(formData)
+
+      expect(result).toEqual(processFormData(formData))
+      expect(sourceMap.leaves).toEqual([
+        { path: ['contactMethod'], sources: [{ field: 'contactMethod', index: 0 }] },
+        { path: ['profile', 0, 'name'], sources: [{ field: 'profile[0][name]', index: 1 }] },
+        { path: ['user', 'address', 'city'], sources: [{ field: 'user[address][city]', index: 2 }] },
+      ])
+    })
+
+    it('should account for indices shifted by filtered empty items', () => {
+      const formData = createFormData({
+        'profile[0][name]': '',
+        'profile[0][email]': '',
+        'profile[1][name]': 'John Doe',
+        'profile[2][name]': 'Jane Smith',
+        'profile[2][email]': 'jane@example.com',
+        'ssns[0]': '',
+        'ssns[1]': '',
+        'ssns[2]': '987-65-4321',
+      })
+
+      const { result, sourceMap } = processFormDataWithSourceMap(formData)
+
+      expect(result).toEqual({
+        profile: [{ name: 'John Doe' }, { name: 'Jane Smith', email: 'jane@example.com' }],
+        ssns: ['987-65-4321'],
+      })
+      expect(sourceMap.sourcesOf(['profile', 1, 'email'])).toEqual([{ field: 'profile[2][email]', index: 4 }])
+      expect(sourceMap.fieldNameOf(['profile', 0, 'name'])).toBe('profile[1][name]')
+      expect(sourceMap.fieldNameOf(['ssns', 0])).toBe('ssns[2]')
+    })
+
+    it('should name containers and missing paths after the original inputs', () => {
+      const formData = createFormData({
+        'profile[0][name]': '',
+        'profile[3][name]': 'John Doe',
+      })
+
+      const { sourceMap } = processFormDataWithSourceMap(formData)
+
+      expect(sourceMap.fieldNameOf(['profile'])).toBe('profile')
+      expect(sourceMap.fieldNameOf(['profile', 0])).toBe('profile[3]')
+      expect(sourceMap.fieldNameOf(['profile', 0, 'email'])).toBe('profile[3][email]')
+      expect(sourceMap.fieldNameOf(['user', 'name'])).toBe('user[name]')
+      expect(sourceMap.sourcesOf(['user', 'name'])).toEqual([])
+    })
+
+    it('should map repeated keys and empty brackets to each submitted entry', () => {
+      const formData = createFormDataFromEntries([
+        ['interests', 'music'],
+        ['interests', 'sports'],
+        ['tags[]', 'javascript'],
+        ['tags[]', 'react'],
+      ])
+
+      const { sourceMap } = processFormDataWithSourceMap(formData)
+
+      expect(sourceMap.leaves).toEqual([
+        { path: ['interests', 0], sources: [{ field: 'interests', index: 0 }] },
+        { path: ['interests', 1], sources: [{ field: 'interests', index: 1 }] },
+        { path: ['tags', 0], sources: [{ field: 'tags[]', index: 2 }] },
+        { path: ['tags', 1], sources: [{ field: 'tags[]', index: 3 }] },
+      ])
+    })
+
+    it('should keep original positions when hardened mode strips fields', () => {
+      const formData = createFormDataFromEntries([
+        ['__proto__[polluted]', 'yes'],
+        ['name', 'John Doe'],
+      ])
+
+      const { sourceMap } = processFormDataWithSourceMap(formData)
+
+      expect(sourceMap.sourcesOf(['name'])).toEqual([{ field: 'name', index: 1 }])
+    })
+  })
+
   // JSON Object Tests
   describe('JSON Object Input', () => {
     it('should process simple JSON fields correctly', () => {
@@ -485,5 +1092,397 @@ describe('processFormData', () => {
         tags: ['javascript', 'typescript'],
       })
     })
+
+    it('should expand bracket keys inside nested JSON objects', () => {
+      const jsonData = {
+        user: {
+          name: 'John Doe',
+          'address[street]': '123 Main St',
+          'address[city]': 'Anytown',
+        },
+      }
+
+      const result = processFormData(jsonData)
+
+      expect(result).toEqual({
+        user: {
+          name: 'John Doe',
+          address: { street: '123 Main St', city: 'Anytown' },
+        },
+      })
+    })
+
+    it('should convert numeric-keyed JSON objects to arrays', () => {
+      const jsonData = {
+        profile: {
+          '1': { name: 'Jane Smith' },
+          '0': { name: 'John Doe', tags: { '0': 'developer', '1': 'javascript' } },
+        },
+      }
+
+      const result = processFormData(jsonData)
+
+      expect(result).toEqual({
+        profile: [{ name: 'John Doe', tags: ['developer', 'javascript'] }, { name: 'Jane Smith' }],
+      })
+    })
+
+    it('should apply the empty value rules to nested JSON arrays', () => {
+      const jsonData = {
+        profile: [
+          { name: 'John Doe', email: '' },
+          { name: '', email: '   ' },
+          { name: 'Jane Smith', tags: ['designer', '', 'figma'] },
+        ],
+      }
+
+      const result = processFormData(jsonData)
+
+      expect(result).toEqual({
+        profile: [{ name: 'John Doe' }, { name: 'Jane Smith', tags: ['designer', 'figma'] }],
+      })
+    })
+
+    it('should produce the same output for nested, flattened and partially migrated payloads', () => {
+      const flattened = {
+        contactMethod: 'email',
+        'profile[0][name]': 'John Doe',
+        'profile[0][tags][0]': 'developer',
+        'profile[1][name]': 'Jane Smith',
+        'user[address][city]': 'Anytown',
+      }
+      const nested = {
+        contactMethod: 'email',
+        profile: [{ name: 'John Doe', tags: ['developer'] }, { name: 'Jane Smith' }],
+        user: { address: { city: 'Anytown' } },
+      }
+      const mixed = {
+        contactMethod: 'email',
+        profile: { '0': { name: 'John Doe', 'tags[0]': 'developer' } },
+        'profile[1][name]': 'Jane Smith',
+        user: { 'address[city]': 'Anytown' },
+      }
+
+      const expected = processFormData(createFormData(flattened))
+
+      expect(processFormData(flattened)).toEqual(expected)
+      expect(processFormData(nested)).toEqual(expected)
+      expect(processFormData(mixed)).toEqual(expected)
+    })
+
+    it('should keep non-string leaf values from JSON', () => {
+      const avatar = new File(['avatar'], 'avatar.png', { type: 'image/png' })
+      const jsonData = { user: { age: 30, active: true, avatar, nickname: null } }
+
+      const result = processFormData(jsonData)
+
+      expect(result).toEqual({ user: { age: 30, active: true, avatar, nickname: null } })
+    })
+
+    it('should keep nested dates and falsy values in arrays as leaves', () => {
+      const birthday = new Date('1990-05-17')
+      const jsonData = { user: { birthday }, quantities: [0, 2], flags: [false, true] }
+
+      const result = processFormData(jsonData)
+
+      expect(result).toEqual({ user: { birthday }, quantities: [0, 2], flags: [false, true] })
+      expect((result.user as Record<string, unknown>).birthday).toBeInstanceOf(Date)
+    })
+
+    it('should keep empty arrays and objects from JSON', () => {
+      const jsonData = { tags: [], prefs: {}, user: { roles: [], address: {} }, items: [[]] }
+
+      const result = processFormData(jsonData)
+
+      expect(result).toEqual({ tags: [], prefs: {}, user: { roles: [], address: {} }, items: [[]] })
+      expect(result.tags).not.toBe(jsonData.tags)
+    })
+
+    it('should merge empty JSON containers with fields submitted for the same path', () => {
+      const jsonData = {
+        prefs: {},
+        'prefs[theme]': 'dark',
+        user: { roles: [], 'roles[0]': 'admin' },
+        'tags[0]': 'a',
+        tags: [],
+      }
+
+      const { result, diagnostics } = processFormDataWithDiagnostics(jsonData)
+
+      expect(result).toEqual({ prefs: { theme: 'dark' }, user: { roles: ['admin'] }, tags: ['a'] })
+      expect(diagnostics).toEqual([])
+    })
+
+    it('should reject JSON nested deeper than maxDepth', () => {
+      const jsonData = { a: { b: { c: { d: 'deep' } } } }
+
+      expect(() => processFormData(jsonData, { maxDepth: 2 })).toThrow(expect.objectContaining({ code: 'MAX_DEPTH' }))
+      expect(processFormData(jsonData, { maxDepth: 3 })).toEqual(jsonData)
+    })
+
+    it('should use dot paths inside nested JSON with the dot syntax', () => {
+      const jsonData = { user: { 'address.city': 'Anytown' }, 'items.0.name': 'Item 1' }
+
+      const result = processFormData(jsonData, { pathSyntax: 'dot' })
+
+      expect(result).toEqual({ user: { address: { city: 'Anytown' } }, items: [{ name: 'Item 1' }] })
+    })
+  })
+
+  describe('Key Transforms', () => {
+    it('should convert object keys at every level but not array indices', () => {
+      const formData = new FormData()
+      formData.append('firstName', 'John')
+      formData.append('homeAddress[zipCode]', '12345')
+      formData.append('workHistory[0][companyName]', 'Acme')
+      formData.append('workHistory[1][companyName]', 'Globex')
+      formData.append('favoriteColors[]', 'red')
+
+      expect(processFormData(formData, { keyTransform: 'snake' })).toEqual({
+        first_name: 'John',
+        home_address: { zip_code: '12345' },
+        work_history: [{ company_name: 'Acme' }, { company_name: 'Globex' }],
+        favorite_colors: ['red'],
+      })
+    })
+
+    it('should convert kebab-case names and nested JSON keys', () => {
+      expect(processFormData('first-name=John&postal-address[street-name]=Main', { keyTransform: 'camel' })).toEqual({
+        firstName: 'John',
+        postalAddress: { streetName: 'Main' },
+      })
+      expect(
+        processFormData({ user_profile: { phone_numbers: [{ is_primary: 'yes' }] } }, { keyTransform: 'camel' })
+      ).toEqual({
+        userProfile: { phoneNumbers: [{ isPrimary: 'yes' }] },
+      })
+    })
+
+    it('should apply a custom transform', () => {
+      expect(processFormData('user[Name]=John', { keyTransform: key => key.toUpperCase() })).toEqual({
+        USER: { NAME: 'John' },
+      })
+    })
+
+    it('should rename aliased fields, including inside arrays of objects', () => {
+      const formData = new FormData()
+      formData.append('fullName', 'John')
+      formData.append('profile[0][emailAddr]', 'john@example.com')
+      formData.append('profile[1][emailAddr]', 'jane@example.com')
+      formData.append('legacy[phoneNo]', '555')
+
+      const result = processFormData(formData, {
+        keyTransform: 'snake',
+        aliases: { fullName: 'name', 'profile[][emailAddr]': 'email', legacy: 'contact' },
+      })
+
+      expect(result).toEqual({
+        name: 'John',
+        profile: [{ email: 'john@example.com' }, { email: 'jane@example.com' }],
+        contact: { phone_no: '555' },
+      })
+    })
+
+    it('should merge several aliases into one field', () => {
+      const result = processFormData('mail=a@example.com&e-mail=b@example.com', {
+        aliases: { mail: 'email', 'e-mail': 'email' },
+      })
+
+      expect(result).toEqual({ email: ['a@example.com', 'b@example.com'] })
+    })
+
+    it('should name paths without a source after the submitted keys', () => {
+      const { sourceMap } = processFormDataWithSourceMap('firstName=John&user[streetName]=Main&fullName=J', {
+        keyTransform: 'snake',
+        aliases: { fullName: 'name', 'user[zipCode]': 'zip' },
+      })
+
+      expect(sourceMap.fieldNameOf(['first_name'])).toBe('firstName')
+      expect(sourceMap.fieldNameOf(['last_name'])).toBe('lastName')
+      expect(sourceMap.fieldNameOf(['user', 'zip_code'])).toBe('user[zipCode]')
+      expect(sourceMap.fieldNameOf(['user', 'zip'])).toBe('user[zipCode]')
+      expect(sourceMap.fieldNameOf(['user', 'street_name'])).toBe('user[streetName]')
+      expect(
+        processFormDataWithSourceMap('user[city]=Oslo', {
+          keyTransform: 'snake',
+          fieldCase: 'kebab',
+        }).sourceMap.fieldNameOf(['user', 'zip_code'])
+      ).toBe('user[zip-code]')
+    })
+
+    it('should strip transformed keys that are dangerous', () => {
+      const result = processFormData('user[Proto]=x&name=John', {
+        keyTransform: key => (key === 'Proto' ? '__proto__' : key),
+      })
+
+      expect(result).toEqual({ name: 'John' })
+      expect(Object.getPrototypeOf({})).toBe(Object.prototype)
+    })
+  })
+
+  describe('Arrays and Objects', () => {
+    it('should only treat non-negative integers as array indices', () => {
+      const result = processFormData('a[0]=x&a[1]=y&b[1abc]=x&c[-1]=x&d[1.5]=x&e[ 1]=x&f[1e3]=x')
+
+      expect(result).toEqual({
+        a: ['x', 'y'],
+        b: { '1abc': 'x' },
+        c: { '-1': 'x' },
+        d: { '1.5': 'x' },
+        e: { ' 1': 'x' },
+        f: { '1e3': 'x' },
+      })
+    })
+
+    it('should apply the same rule at the top level and when nested', () => {
+      const result = processFormData('a[1abc]=x&b[0][1abc]=y&b[0][2]=z')
+
+      expect(result).toEqual({ a: { '1abc': 'x' }, b: [{ '1abc': 'y', 2: 'z' }] })
+    })
+
+    it('should keep keys with leading zeros as object keys by default', () => {
+      const result = processFormData('codes[007]=bond&codes[01]=first&items[0]=x')
+
+      expect(result).toEqual({ codes: { '007': 'bond', '01': 'first' }, items: ['x'] })
+    })
+
+    it('should read leading zeros as indices with leadingZeros: index', () => {
+      const result = processFormData('items[02]=c&items[00]=a&items[1]=b', { leadingZeros: 'index' })
+
+      expect(result).toEqual({ items: ['a', 'b', 'c'] })
+    })
+
+    it('should keep forced object paths as maps', () => {
+      const result = processFormData('rates[90210]=1.5&rates[10001]=2&items[0][meta][1]=x&items[1][meta][2]=y', {
+        objectPaths: ['rates', 'items[][meta]'],
+      })
+
+      expect(result).toEqual({
+        rates: { 10001: '2', 90210: '1.5' },
+        items: [{ meta: { 1: 'x' } }, { meta: { 2: 'y' } }],
+      })
+    })
+
+    it('should only check the index limit for keys that are array indices', () => {
+      expect(() => processFormData('rates[90210]=1.5')).toThrow(expect.objectContaining({ code: 'MAX_ARRAY_INDEX' }))
+      expect(() => processFormData('rates[90210]=1.5', { objectPaths: ['rates'] })).not.toThrow()
+      expect(() => processFormData('codes[000000090210]=x')).not.toThrow()
+    })
+
+    it('should keep forced object paths in JSON input', () => {
+      const jsonData = { rates: { 90210: '1.5' }, tags: ['a'] }
+
+      expect(processFormData(jsonData, { objectPaths: ['rates', 'tags'] })).toEqual({
+        rates: { 90210: '1.5' },
+        tags: { 0: 'a' },
+      })
+    })
+
+    it('should keep mixed index and named keys as an object by default', () => {
+      const result = processFormData('items[0]=a&items[total]=2&items[1]=b')
+
+      expect(result).toEqual({ items: { 0: 'a', 1: 'b', total: '2' } })
+    })
+
+    it('should throw for mixed index and named keys with mixedKeys: error', () => {
+      expect(() => processFormData('items[0]=a&items[total]=2', { mixedKeys: 'error' })).toThrow(
+        expect.objectContaining({ code: 'MIXED_KEYS', field: 'items' })
+      )
+      expect(() => processFormData('order[lines][0][sku]=a&order[lines][x][sku]=b', { mixedKeys: 'error' })).toThrow(
+        'Field "order[lines]" has both array indices and named keys'
+      )
+      expect(processFormData('items[0]=a&items[1]=b', { mixedKeys: 'error' })).toEqual({ items: ['a', 'b'] })
+    })
+
+    it('should resolve empty brackets after explicit indices', () => {
+      const result = processFormData('tags[5]=a&tags[]=b&codes[007]=x&codes[]=y')
+
+      expect(result).toEqual({ tags: ['a', 'b'], codes: { '007': 'x', 0: 'y' } })
+    })
+  })
+
+  describe('Conflicts', () => {
+    const orders = [
+      ['value first', 'user=alice&user[name]=Alice&tags[0]=x&tags[0][label]=y'],
+      ['value last', 'user[name]=Alice&user=alice&tags[0][label]=y&tags[0]=x'],
+    ]
+
+    it.each(orders)('should prefer the container by default with the %s', (_, query) => {
+      expect(processFormData(query)).toEqual({ user: { name: 'Alice' }, tags: [{ label: 'y' }] })
+    })
+
+    it.each(orders)('should prefer the value with prefer-scalar with the %s', (_, query) => {
+      expect(processFormData(query, { conflicts: 'prefer-scalar' })).toEqual({ user: 'alice', tags: ['x'] })
+    })
+
+    it.each(orders)('should merge the value into _value with the %s', (_, query) => {
+      expect(processFormData(query, { conflicts: 'merge' })).toEqual({
+        user: { _value: 'alice', name: 'Alice' },
+        tags: [{ _value: 'x', label: 'y' }],
+      })
+    })
+
+    it('should throw with the error policy', () => {
+      expect(() => processFormData('user=alice&user[name]=Alice', { conflicts: 'error' })).toThrow(
+        expect.objectContaining({ code: 'PATH_CONFLICT', field: 'user[name]' })
+      )
+      expect(() => processFormData('tags[0][label]=y&tags[0]=x', { conflicts: 'error' })).toThrow(
+        '"tags[0]" was submitted both as a value and with nested fields'
+      )
+    })
+
+    it('should not walk into files', () => {
+      const avatar = new File(['x'], 'avatar.png')
+      const formData = new FormData()
+      formData.append('user[avatar]', avatar)
+      formData.append('user[avatar][alt]', 'Me')
+
+      expect(processFormData(formData, { conflicts: 'prefer-scalar' })).toEqual({ user: { avatar } })
+      expect(processFormData(formData, { conflicts: 'merge' })).toEqual({
+        user: { avatar: { _value: avatar, alt: 'Me' } },
+      })
+    })
+
+    it('should merge repeated values and track their sources', () => {
+      const { result, sourceMap } = processFormDataWithSourceMap('user=a&user=b&user[name]=Alice', {
+        conflicts: 'merge',
+      })
+
+      expect(result).toEqual({ user: { _value: ['a', 'b'], name: 'Alice' } })
+      expect(sourceMap.sourcesOf(['user', '_value', 1])).toEqual([{ field: 'user', index: 1 }])
+      expect(sourceMap.sourcesOf(['user', 'name'])).toEqual([{ field: 'user[name]', index: 2 }])
+    })
+
+    it('should report conflicts and repeated fields as diagnostics', () => {
+      const { result, diagnostics } = processFormDataWithDiagnostics(
+        'user=alice&user[name]=Alice&user[name]=Al&tags[]=a&tags[]=b&profile[0][x]=1&profile[0]=2'
+      )
+
+      expect(result).toEqual({ user: { name: ['Alice', 'Al'] }, tags: ['a', 'b'], profile: [{ x: '1' }] })
+      expect(diagnostics).toEqual([
+        {
+          code: 'PATH_CONFLICT',
+          field: 'user[name]',
+          path: ['user'],
+          message: '"user" was submitted both as a value and with nested fields',
+        },
+        {
+          code: 'DUPLICATE_KEY',
+          field: 'user[name]',
+          path: ['user', 'name'],
+          message: 'Field "user[name]" was submitted more than once',
+        },
+        {
+          code: 'PATH_CONFLICT',
+          field: 'profile[0]',
+          path: ['profile', '0'],
+          message: '"profile[0]" was submitted both as a value and with nested fields',
+        },
+      ])
+    })
+
+    it('should return no diagnostics for clean submissions', () => {
+      expect(processFormDataWithDiagnostics('name=John&tags[]=a&tags[]=b').diagnostics).toEqual([])
+    })
   })
 })
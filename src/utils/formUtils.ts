@@ -1,3 +1,13 @@
+import {
+  createInverseKeyMapper,
+  createKeyMapper,
+  detectKeyCase,
+  KeyCase,
+  KeyMappingOptions,
+  KeyTransform,
+} from './keyUtils'
+import { parseQueryString } from './queryUtils'
+
 /**
  * Type definitions for form data processing
  */
@@ -12,172 +22,1165 @@ export interface NestedObject {
 export type ProcessedFormData = Record<string, SimpleFormValue | NestedObject | Array<SimpleFormValue | NestedObject>>
 
 /**
- * Generic function to convert form data into a structured object
- * @param data - The data to process, either FormData or a Record object
- * @returns Structured form data object
+ * Accepted inputs: FormData, URLSearchParams, a raw query string or urlencoded body,
+ * any iterable of `[name, value]` entries, or a plain (JSON) object
  */
-export function processFormData(data: FormData | Record<string, unknown>): ProcessedFormData {
-  const result: ProcessedFormData = {}
-  let entries: Array<[string, unknown]> = []
+export type FormDataInput =
+  FormData | URLSearchParams | string | Iterable<readonly [string, unknown]> | Record<string, unknown>
 
-  // Handle different input types
-  if (data instanceof FormData) {
-    // Process FormData object
-    entries = Array.from(data.entries()) as Array<[string, unknown]>
-  } else {
-    // Process plain object (JSON)
-    entries = Object.entries(data)
+// A key or array index in the processed result
+export type PathSegment = string | number
+
+export interface FieldSource {
+  // The original field name, e.g. `profile[2][email]`
+  field: string
+  // Position of the entry in the submitted data
+  index: number
+}
+
+export interface SourceMapLeaf {
+  path: PathSegment[]
+  sources: FieldSource[]
+}
+
+/**
+ * Maps paths in the processed result back to the submitted fields, accounting
+ * for indices that shift when empty array items are filtered out
+ */
+export interface FormDataSourceMap {
+  // Every leaf value in the result, in output order
+  leaves: SourceMapLeaf[]
+  // The fields that produced the value at a path, empty if none did
+  sourcesOf(path: PathSegment[]): FieldSource[]
+  // The input name for a path, including paths that are missing from the result
+  fieldNameOf(path: PathSegment[]): string
+}
+
+/**
+ * How to handle a field name that is submitted more than once
+ * (checkbox groups, `<select multiple>`, duplicate nested keys):
+ * - `array`: collect every value into an array
+ * - `first`: keep the first value
+ * - `last`: keep the last value
+ * - `error`: throw a FormDataParseError
+ */
+export type RepeatedKeyPolicy = 'array' | 'first' | 'last' | 'error'
+
+/**
+ * When a container becomes an array: every key must be an array index, which is
+ * a non-negative integer written without a sign, decimals or spaces (`items[1abc]`
+ * and `items[-1]` are object keys). Leading zeros are handled by `leadingZeros`:
+ * - `object`: `007` is an object key, so zip codes and ids keep their digits
+ * - `index`: `007` is index 7
+ */
+export type LeadingZeroPolicy = 'object' | 'index'
+
+/**
+ * What to do when a container has both array indices and named keys,
+ * e.g. `items[0]` and `items[total]`:
+ * - `object`: keep an object with every key, including the indices
+ * - `error`: throw a FormDataParseError
+ */
+export type MixedKeyPolicy = 'object' | 'error'
+
+/**
+ * What to do when a path is submitted both as a value and as a container of
+ * nested fields, e.g. `user=alice` and `user[name]=Alice`, whatever their order:
+ * - `prefer-container`: keep the nested fields and drop the value
+ * - `prefer-scalar`: keep the value and drop the nested fields
+ * - `merge`: keep both, moving the value into the container as `_value`
+ * - `error`: throw a FormDataParseError
+ */
+export type ConflictPolicy = 'prefer-container' | 'prefer-scalar' | 'merge' | 'error'
+
+// The key that holds a value merged into a container by the `merge` conflict policy
+export const MERGED_VALUE_KEY = '_value'
+
+/**
+ * A problem that was resolved by a policy rather than thrown
+ */
+export interface FormDataDiagnostic {
+  code: 'PATH_CONFLICT' | 'DUPLICATE_KEY'
+  // The submitted field that ran into the problem, e.g. `user[name]`
+  field: string
+  // The path affected, before empty array items are removed, e.g. `['user']`
+  path: string[]
+  message: string
+}
+
+/**
+ * Resource limits applied in hardened mode
+ * - `maxDepth`: maximum number of bracket segments after the base name
+ * - `maxKeys`: maximum number of submitted fields
+ * - `maxArrayIndex`: largest explicit array index, e.g. `items[10000]`
+ * - `maxFieldLength`: maximum length of a field name in characters
+ */
+export interface FormDataLimits {
+  maxDepth: number
+  maxKeys: number
+  maxArrayIndex: number
+  maxFieldLength: number
+}
+
+export const DEFAULT_LIMITS: FormDataLimits = {
+  maxDepth: 20,
+  maxKeys: 10000,
+  maxArrayIndex: 10000,
+  maxFieldLength: 1024,
+}
+
+/**
+ * What to do with empty or whitespace-only strings:
+ * - `keep`: keep them as submitted
+ * - `drop`: leave the field out, as if it was never submitted
+ * - `null`: replace them with null
+ */
+export type EmptyStringPolicy = 'keep' | 'drop' | 'null'
+
+/**
+ * How field names are split into a path:
+ * - `bracket`: `user[address][city]`, `items[0][name]`
+ * - `dot`: `user.address.city`, `items.0.name` (brackets are literal)
+ * - `mixed`: both, e.g. `user[addresses].0.street`
+ *
+ * In `dot` and `mixed` syntax a backslash escapes the next character, so
+ * `file\.name` is a single key. A custom PathParser can be passed instead.
+ */
+export type PathSyntax = 'bracket' | 'dot' | 'mixed'
+
+export interface ParsedFieldName {
+  baseName: string
+  path: string[]
+}
+
+// Splits a field name into its base name and path, or returns null to ignore the field
+export type PathParser = (field: string) => ParsedFieldName | null
+
+export interface ProcessFormDataOptions extends Partial<FormDataLimits>, KeyMappingOptions {
+  repeatedKeys?: RepeatedKeyPolicy
+  // How field names are split into paths (default: 'bracket')
+  pathSyntax?: PathSyntax | PathParser
+  // Character set for decoding query strings and multipart text fields (default: 'utf-8')
+  charset?: string
+  // Applies at every level when set; by default bracket fields are dropped and simple fields kept
+  emptyStrings?: EmptyStringPolicy
+  // Trim whitespace from every string value (default: false)
+  trimStrings?: boolean
+  // Remove gaps left by missing or dropped items; when false they become null (default: true)
+  compactArrays?: boolean
+  // Remove objects without any non-empty value at every level; by default only top-level array items are pruned
+  pruneEmptyObjects?: boolean
+  // Enforce the limits and reject prototype-polluting keys; only disable for trusted input (default: true)
+  hardened?: boolean
+  // Whether `__proto__`, `constructor` and `prototype` segments drop the field or throw (default: 'strip')
+  dangerousKeys?: 'strip' | 'error'
+  // Containers that are always objects, in bracket notation with `[]` for any index, e.g. `['rates', 'items[][meta]']`
+  objectPaths?: string[]
+  // Whether keys with leading zeros such as `007` are object keys or array indices (default: 'object')
+  leadingZeros?: LeadingZeroPolicy
+  // What to do when a container has both array indices and named keys (default: 'object')
+  mixedKeys?: MixedKeyPolicy
+  // What to do when a path is submitted both as a value and with nested fields (default: 'prefer-container')
+  conflicts?: ConflictPolicy
+  // The case of the submitted names, for naming fields that were not submitted when `keyTransform`
+  // renames them (default: the case of the submitted names that were renamed)
+  fieldCase?: KeyCase | KeyTransform
+}
+
+export type FormDataErrorCode =
+  | 'DUPLICATE_KEY'
+  | 'DANGEROUS_KEY'
+  | 'MAX_DEPTH'
+  | 'MAX_KEYS'
+  | 'MAX_ARRAY_INDEX'
+  | 'MAX_FIELD_LENGTH'
+  | 'MAX_FIELD_SIZE'
+  | 'MAX_FILE_SIZE'
+  | 'MAX_TOTAL_FILE_SIZE'
+  | 'MALFORMED_MULTIPART'
+  | 'INVALID_PATCH'
+  | 'MIXED_KEYS'
+  | 'PATH_CONFLICT'
+  | 'UNSUPPORTED_CONTENT_TYPE'
+  | 'MAX_BODY_SIZE'
+  | 'MALFORMED_JSON'
+  | 'INVALID_RULE'
+
+/**
+ * Error thrown when the submitted data violates a parsing policy
+ */
+export class FormDataParseError extends Error {
+  readonly code: FormDataErrorCode
+  // The original field name that caused the error, e.g. `profile[0][email]`
+  readonly field: string
+
+  constructor(code: FormDataErrorCode, field: string, message: string) {
+    super(message)
+    this.name = 'FormDataParseError'
+    this.code = code
+    this.field = field
+  }
+}
+
+// Array indices by leading zero policy; empty brackets (`tags[]`) are resolved to the next index separately
+const INDEX_PATTERNS: Record<LeadingZeroPolicy, RegExp> = {
+  object: /^(0|[1-9]\d*)$/,
+  index: /^\d+$/,
+}
+
+// Path segments that would reach Object.prototype when used as property names
+export const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype'])
+
+/**
+ * Splits a dot or mixed notation field name into segments, honouring backslash escapes
+ * @param key - The field name, e.g. `user[addresses].0.street`
+ * @param allowBrackets - Whether brackets delimit segments (mixed) or are literal (dot)
+ * @returns The segments, or null if a bracket is never closed
+ */
+function tokenizePath(key: string, allowBrackets: boolean): string[] | null {
+  const segments: string[] = []
+  let current = ''
+  // A dot straight after a closing bracket only separates, it does not end a segment
+  let afterBracket = false
+
+  for (let i = 0; i < key.length; i++) {
+    const char = key[i]
+
+    if (char === '\\' && i + 1 < key.length) {
+      current += key[++i]
+      afterBracket = false
+    } else if (char === '.') {
+      if (!afterBracket) segments.push(current)
+      current = ''
+      afterBracket = false
+    } else if (char === '[' && allowBrackets) {
+      if (!afterBracket) segments.push(current)
+      current = ''
+
+      // Read up to the closing bracket
+      let content = ''
+      let j = i + 1
+      for (; j < key.length && key[j] !== ']'; j++) {
+        if (key[j] === '\\' && j + 1 < key.length) j++
+        content += key[j]
+      }
+      if (j >= key.length) return null
+
+      segments.push(content)
+      i = j
+      afterBracket = true
+    } else {
+      current += char
+      afterBracket = false
+    }
+  }
+
+  if (!afterBracket) segments.push(current)
+  return segments
+}
+
+/**
+ * Splits a bracket notation field name, taking every `[...]` after the base name as a
+ * segment and ignoring text between them, e.g. `a[b]x[c]` is `a` with `['b', 'c']`
+ * @param key - The field name, e.g. `profile[0][name]`
+ * @returns The base name and path, or null if the first bracket is never closed
+ */
+function scanBracketName(key: string): ParsedFieldName | null {
+  const bracketIndex = key.indexOf('[')
+  if (bracketIndex === -1) return { baseName: key, path: [] }
+
+  const path: string[] = []
+  for (let open = bracketIndex; open !== -1; open = key.indexOf('[', open + 1)) {
+    const close = key.indexOf(']', open + 1)
+    if (close === -1) break
+    path.push(key.substring(open + 1, close))
+    open = close
+  }
+  // An opening bracket without a closing one is not a usable field name
+  return path.length === 0 && !key.includes(']') ? null : { baseName: key.substring(0, bracketIndex), path }
+}
+
+/**
+ * Splits a field name into its base name and path
+ * @param key - The field name, e.g. `profile[0][name]`
+ * @param syntax - The path syntax or a custom parser
+ * @returns The base name (`profile`) and path parts (`['0', 'name']`), or null to ignore the field
+ */
+export function parseFieldName(key: string, syntax: PathSyntax | PathParser = 'bracket'): ParsedFieldName | null {
+  if (typeof syntax === 'function') return syntax(key)
+  if (syntax === 'bracket') return scanBracketName(key)
+
+  const segments = tokenizePath(key, syntax === 'mixed')
+  return segments && { baseName: segments[0], path: segments.slice(1) }
+}
+
+// Escapes characters that would otherwise split a segment in dot or mixed syntax
+const escapeSegment = (segment: string, special: RegExp): string => segment.replace(special, '\\$&')
+
+/**
+ * Builds a field name from an output path
+ * @param path - Path segments into the processed result, e.g. `['profile', 0, 'name']`
+ * @param syntax - The path syntax to write; custom parsers get bracket notation
+ * @returns The field name, e.g. `profile[0][name]` or `profile.0.name`
+ */
+export function toFieldName(path: PathSegment[], syntax: PathSyntax | PathParser = 'bracket'): string {
+  if (syntax === 'dot') {
+    return path.map(segment => escapeSegment(String(segment), /[.\\]/g)).join('.')
+  }
+  if (syntax === 'mixed') {
+    return path
+      .map((segment, index) =>
+        index === 0 ? escapeSegment(String(segment), /[.[\]\\]/g) : `[${escapeSegment(String(segment), /[[\]\\]/g)}]`
+      )
+      .join('')
+  }
+  return path.map((segment, index) => (index === 0 ? String(segment) : `[${segment}]`)).join('')
+}
+
+/**
+ * Checks a field name against the hardened mode limits
+ * @param key - The field name to check
+ * @param parsed - The field name split into its base name and path
+ * @param limits - The limits to enforce
+ * @param dangerousKeys - Whether dangerous segments strip the field or throw
+ * @param isIndexAt - Whether the segment at a position of `[baseName, ...path]` is an array index
+ * @returns false if the field should be dropped
+ * @throws FormDataParseError if a limit is exceeded
+ */
+function checkFieldName(
+  key: string,
+  { baseName, path }: ParsedFieldName,
+  limits: FormDataLimits,
+  dangerousKeys: 'strip' | 'error',
+  isIndexAt: (segments: string[], position: number) => boolean
+): boolean {
+  if (path.length > limits.maxDepth) {
+    throw new FormDataParseError(
+      'MAX_DEPTH',
+      key,
+      `Field "${key}" is nested ${path.length} levels deep, more than the limit of ${limits.maxDepth}`
+    )
+  }
+
+  if (DANGEROUS_KEYS.has(baseName) || path.some(segment => DANGEROUS_KEYS.has(segment))) {
+    if (dangerousKeys === 'error') {
+      throw new FormDataParseError('DANGEROUS_KEY', key, `Field "${key}" contains a forbidden path segment`)
+    }
+    return false
   }
 
-  // Process simple fields (no brackets)
-  entries.forEach(([key, value]) => {
-    if (typeof key === 'string' && !key.includes('[')) {
-      result[key] = value as SimpleFormValue
+  // Only large numbers need the index check, so most fields never build the segment list
+  path.forEach((segment, index) => {
+    if (Number(segment) > limits.maxArrayIndex && isIndexAt([baseName, ...path], index + 1)) {
+      throw new FormDataParseError(
+        'MAX_ARRAY_INDEX',
+        key,
+        `Field "${key}" uses array index ${Number(segment)}, more than the limit of ${limits.maxArrayIndex}`
+      )
     }
   })
 
-  // Process nested fields with pattern: name[key1][key2]...[keyN]
-  const nestedEntries = entries.filter(([key]) => typeof key === 'string' && key.includes('[') && key.includes(']'))
+  return true
+}
 
-  // Group by base name
-  const fieldGroups: Record<string, Array<{ path: string[]; value: unknown }>> = {}
+// A submitted entry; entries expanded from plain objects arrive with their path already split
+interface FormEntry {
+  key: string
+  value: unknown
+  index: number
+  parsed?: ParsedFieldName
+}
 
-  nestedEntries.forEach(([key, value]) => {
-    if (typeof key !== 'string') return
+// Sets an own property, since assigning to `__proto__` would replace the prototype instead
+const setOwnKey = (target: Record<string, unknown>, key: string, value: unknown): void => {
+  if (key === '__proto__') {
+    Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true })
+  } else {
+    target[key] = value
+  }
+}
+
+// Objects and arrays that are walked into, as opposed to leaf values such as files and dates
+export const isPlainContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null && !(value instanceof Blob) && !(value instanceof Date)
+
+// Objects created by literals or JSON.parse, as opposed to arrays, dates, files and class instances
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+
+// Copies objects and arrays so callers can modify the copy; files and dates are shared
+export const cloneContainers = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(cloneContainers)
+  if (!isPlainContainer(value)) return value
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneContainers(item)]))
+}
+
+// Empty objects and arrays, which JSON input keeps as values so clearing a list differs from leaving it out
+const isEmptyContainer = (value: unknown): boolean => isPlainContainer(value) && Object.keys(value).length === 0
 
-    // Extract base name and parse path parts using regex
-    const baseName = key.substring(0, key.indexOf('['))
-    const pathParts = [...key.matchAll(/\[([^\]]*)\]/g)].map(match => match[1])
+/**
+ * Expands a plain (JSON) object into one entry per leaf, so nested objects, arrays and
+ * keys written in the path syntax at any level go through the same rules as FormData
+ * @param data - The plain object
+ * @param syntax - The path syntax used to split keys
+ * @param limits - Limits to enforce while walking, or null when not hardened
+ * @returns The entries in document order
+ * @throws FormDataParseError if the object is nested too deeply or has too many leaves
+ */
+function expandObjectEntries(
+  data: Record<string, unknown>,
+  syntax: PathSyntax | PathParser,
+  limits: FormDataLimits | null
+): FormEntry[] {
+  const entries: FormEntry[] = []
+
+  const walk = (value: unknown, segments: string[]): void => {
+    if (!isPlainContainer(value) || (segments.length > 0 && isEmptyContainer(value))) {
+      const key = toFieldName(segments, syntax)
+      if (limits && entries.length >= limits.maxKeys) {
+        throw new FormDataParseError('MAX_KEYS', key, `Received more than the limit of ${limits.maxKeys} fields`)
+      }
+      // Empty containers are copied, since the result may grow them
+      const leaf = isPlainContainer(value) ? (Array.isArray(value) ? [] : {}) : value
+      entries.push({
+        key,
+        value: leaf,
+        index: entries.length,
+        parsed: { baseName: segments[0], path: segments.slice(1) },
+      })
+      return
+    }
 
-    if (!fieldGroups[baseName]) {
-      fieldGroups[baseName] = []
+    if (limits && segments.length > limits.maxDepth) {
+      const key = toFieldName(segments, syntax)
+      throw new FormDataParseError(
+        'MAX_DEPTH',
+        key,
+        `Field "${key}" is nested more than the limit of ${limits.maxDepth} levels deep`
+      )
     }
 
-    fieldGroups[baseName].push({
-      path: pathParts,
-      value,
+    Object.entries(value).forEach(([key, child]) => {
+      // Nested keys may themselves use the path syntax, e.g. { user: { 'address[city]': ... } }
+      const parsed = Array.isArray(value) ? { baseName: key, path: [] } : parseFieldName(key, syntax)
+      if (!parsed) return
+      const childSegments =
+        parsed.baseName === '' && segments.length > 0 ? parsed.path : [parsed.baseName, ...parsed.path]
+      walk(child, [...segments, ...childSegments])
     })
+  }
+
+  walk(data, [])
+  return entries
+}
+
+/**
+ * Builds the source map once the result has been normalized
+ * @param result - The processed result
+ * @param sources - Contributing fields keyed by their pre-normalization path
+ * @param arrayKeys - The pre-normalization key of each item in normalized arrays
+ * @param syntax - The path syntax used to name paths that have no source
+ * @param toSubmitted - Turns output keys back into the submitted names, for paths that have no source
+ * @returns The source map
+ */
+function buildSourceMap(
+  result: ProcessedFormData,
+  sources: Map<string, FieldSource[]>,
+  arrayKeys: WeakMap<object, string[]>,
+  syntax: PathSyntax | PathParser,
+  toSubmitted: (segments: string[]) => string[]
+): FormDataSourceMap {
+  const leaves: SourceMapLeaf[] = []
+  // Pre-normalization path of every node in the result, keyed by output path
+  const nodes = new Map<string, { prePath: string[]; sources?: FieldSource[] }>()
+
+  const walk = (value: unknown, path: PathSegment[], prePath: string[]): void => {
+    if (Array.isArray(value)) {
+      nodes.set(JSON.stringify(path), { prePath })
+      const keys = arrayKeys.get(value) ?? value.map((_, index) => String(index))
+      value.forEach((child, index) => walk(child, [...path, index], [...prePath, keys[index]]))
+    } else if (isPlainContainer(value)) {
+      nodes.set(JSON.stringify(path), { prePath })
+      Object.entries(value).forEach(([key, child]) => walk(child, [...path, key], [...prePath, key]))
+    } else {
+      const leafSources = sources.get(JSON.stringify(prePath)) ?? []
+      nodes.set(JSON.stringify(path), { prePath, sources: leafSources })
+      leaves.push({ path, sources: leafSources })
+    }
+  }
+
+  Object.entries(result).forEach(([key, value]) => walk(value, [key], [key]))
+
+  return {
+    leaves,
+    sourcesOf: path => nodes.get(JSON.stringify(path))?.sources ?? [],
+    fieldNameOf: path => {
+      // Resolve the deepest known node, then append the remaining segments as-is
+      for (let depth = path.length; depth > 0; depth--) {
+        const node = nodes.get(JSON.stringify(path.slice(0, depth)))
+        if (!node) continue
+
+        if (depth === path.length && node.sources && node.sources.length > 0) {
+          return node.sources[node.sources.length - 1].field
+        }
+        return toFieldName(toSubmitted([...node.prePath, ...path.slice(depth).map(String)]), syntax)
+      }
+      return toFieldName(toSubmitted(path.map(String)), syntax)
+    },
+  }
+}
+
+/**
+ * Extension points into processing, e.g. for parser plugins
+ */
+export interface FormDataHooks {
+  // Rewrites each submitted field name before it is split into a path; null drops the field
+  beforeParse?: (field: string) => string | null
+  // Transforms each leaf value before the trim and empty string policies
+  transformValue?: (value: unknown, context: LeafContext) => unknown
+  // Post-processes the normalized result
+  afterNormalize?: (result: ProcessedFormData) => ProcessedFormData
+}
+
+export interface LeafContext {
+  // The field name after beforeParse, e.g. `items[0][qty]`
+  field: string
+  // The field name as submitted, e.g. `items[0][qty]:number`
+  submitted: string
+  // The base name and path after key transforms, e.g. `['items', '0', 'qty']`
+  path: string[]
+}
+
+/**
+ * Processing functions that share options compiled once, for reuse across submissions
+ */
+export interface FormDataProcessor {
+  process(data: FormDataInput): ProcessedFormData
+  processWithSourceMap(data: FormDataInput): { result: ProcessedFormData; sourceMap: FormDataSourceMap }
+  processWithDiagnostics(data: FormDataInput): { result: ProcessedFormData; diagnostics: FormDataDiagnostic[] }
+}
+
+// The state of a single call, passed along so a processor can run several calls at once
+interface ProcessState {
+  // Whether to record the fields behind each value
+  trackSources: boolean
+  // Contributing fields per pre-normalization path
+  sources: Map<string, FieldSource[]>
+  // The submitted name of each key that keyTransform or aliases renamed, e.g. `last_name` → `lastName`
+  renamedKeys: Map<string, string>
+  diagnostics: FormDataDiagnostic[]
+}
+
+// How many characters of field names a processor caches parsed, e.g. 20,000 names of 50 characters
+const FIELD_NAME_CACHE_CHARS = 1_000_000
+
+// A submitted field after tokenizing, with its path split and keys renamed
+interface TokenizedField {
+  source: FieldSource
+  path: string[]
+  value: unknown
+}
+
+/**
+ * Compiles the options into processing functions, so repeated submissions skip the setup
+ * @param options - Parsing options, as for processFormData
+ * @param hooks - Functions called while processing
+ * @returns The processing functions
+ */
+export function compileFormDataParser(
+  options: ProcessFormDataOptions = {},
+  hooks: FormDataHooks = {}
+): FormDataProcessor {
+  const { repeatedKeys = 'array', pathSyntax = 'bracket', hardened = true, dangerousKeys = 'strip' } = options
+  const { emptyStrings, trimStrings = false, compactArrays = true, pruneEmptyObjects } = options
+  const { leadingZeros = 'object', mixedKeys = 'object', conflicts = 'prefer-container' } = options
+  const { beforeParse, transformValue, afterNormalize } = hooks
+  const limits: FormDataLimits = {
+    maxDepth: options.maxDepth ?? DEFAULT_LIMITS.maxDepth,
+    maxKeys: options.maxKeys ?? DEFAULT_LIMITS.maxKeys,
+    maxArrayIndex: options.maxArrayIndex ?? DEFAULT_LIMITS.maxArrayIndex,
+    maxFieldLength: options.maxFieldLength ?? DEFAULT_LIMITS.maxFieldLength,
+  }
+
+  // Containers forced into object mode, split into segments where `''` matches any index
+  const objectPaths = (options.objectPaths ?? []).map(pattern => {
+    const { baseName, path } = parseFieldName(pattern) as ParsedFieldName
+    return [baseName, ...path]
   })
+  const isIndex = (key: string): boolean => INDEX_PATTERNS[leadingZeros].test(key)
+  const isObjectPath = (path: string[]): boolean =>
+    objectPaths.length > 0 &&
+    objectPaths.some(
+      pattern =>
+        pattern.length === path.length &&
+        pattern.every(
+          (part, index) => part === path[index] || (part === '' && (path[index] === '' || isIndex(path[index])))
+        )
+    )
+  const isIndexAt = (segments: string[], position: number): boolean =>
+    isIndex(segments[position]) && (objectPaths.length === 0 || !isObjectPath(segments.slice(0, position)))
+
+  const mapKeys = createKeyMapper(options)
+
+  // Parsed field names, shared between calls since the same form is submitted again and again;
+  // cleared once the names add up to FIELD_NAME_CACHE_CHARS, so unique names cannot grow it without bound
+  const fieldNames = new Map<string, ParsedFieldName | null>()
+  let cachedChars = 0
+  const parseName = (key: string): ParsedFieldName | null => {
+    if (typeof pathSyntax === 'function') return pathSyntax(key)
+    const cached = fieldNames.get(key)
+    if (cached !== undefined) return cached
+
+    const parsed = parseFieldName(key, pathSyntax)
+    if (cachedChars + key.length > FIELD_NAME_CACHE_CHARS) {
+      fieldNames.clear()
+      cachedChars = 0
+    }
+    fieldNames.set(key, parsed)
+    cachedChars += key.length
+    return parsed
+  }
+
+  // Containers and arrays are created by each call, so these can be shared between calls:
+  // the pre-normalization key of each item in normalized arrays, for source maps
+  const arrayKeys = new WeakMap<object, string[]>()
+  // Arrays of repeated values built here, which can grow in place instead of being copied per value
+  const collected = new WeakSet<unknown[]>()
+  // The next free index of containers an empty bracket was resolved in, kept current as keys are added
+  const nextIndexes = new WeakMap<NestedObject, number>()
+
+  /**
+   * Reads the submitted entries, remembering each entry's original position
+   * @param data - The data to process
+   * @returns The entries
+   * @throws FormDataParseError if there are too many fields or a field name is too long
+   */
+  const readEntries = (data: FormDataInput): FormEntry[] => {
+    let entries: FormEntry[]
+
+    if (typeof data === 'string') {
+      // Process query string or urlencoded body
+      entries = parseQueryString(data, { charset: options.charset }).map(([key, value], index) => ({
+        key,
+        value,
+        index,
+      }))
+    } else if (Symbol.iterator in data) {
+      // Process FormData, URLSearchParams and other iterables of [name, value] entries
+      entries = Array.from(data as Iterable<readonly [string, unknown]>, ([key, value], index) => ({
+        key,
+        value,
+        index,
+      }))
+    } else {
+      // Process plain object (JSON), expanding nested objects and arrays at every level
+      entries = expandObjectEntries(data, pathSyntax, hardened ? limits : null)
+    }
+
+    // Enforce limits before any field name is parsed
+    if (hardened) {
+      if (entries.length > limits.maxKeys) {
+        throw new FormDataParseError(
+          'MAX_KEYS',
+          '',
+          `Received ${entries.length} fields, more than the limit of ${limits.maxKeys}`
+        )
+      }
+      entries.forEach(({ key }) => {
+        if (key.length > limits.maxFieldLength) {
+          throw new FormDataParseError(
+            'MAX_FIELD_LENGTH',
+            key.substring(0, 100),
+            `Field name is ${key.length} characters long, more than the limit of ${limits.maxFieldLength}`
+          )
+        }
+      })
+    }
+
+    return entries
+  }
+
+  /**
+   * Tokenizes every entry in a single pass: splits the field name, ignoring names the syntax
+   * cannot parse, renames keys before the hardened checks so transformed names are checked too,
+   * strips dangerous keys before any structure is built, and routes the field to its group
+   * @param entries - The submitted entries
+   * @returns Simple fields (no path), and nested fields grouped by base name
+   */
+  const tokenize = (
+    state: ProcessState,
+    entries: FormEntry[]
+  ): { simpleFields: Array<TokenizedField & { baseName: string }>; fieldGroups: Map<string, TokenizedField[]> } => {
+    const simpleFields: Array<TokenizedField & { baseName: string }> = []
+    // A Map, since base names such as `toString` would otherwise find Object.prototype members
+    const fieldGroups = new Map<string, TokenizedField[]>()
+
+    entries.forEach(entry => {
+      const key = beforeParse ? beforeParse(entry.key) : entry.key
+      if (key === null) return
+      const parsed = entry.parsed && key === entry.key ? entry.parsed : parseName(key)
+      if (!parsed) return
+
+      let field = parsed
+      if (mapKeys) {
+        const submitted = [parsed.baseName, ...parsed.path]
+        const mapped = mapKeys(submitted)
+        if (state.trackSources) {
+          mapped.forEach((key, index) => {
+            if (key !== submitted[index]) state.renamedKeys.set(key, submitted[index])
+          })
+        }
+        const [baseName, ...path] = mapped
+        field = { baseName, path }
+      }
+      if (hardened && !checkFieldName(key, field, limits, dangerousKeys, isIndexAt)) return
+
+      const source = { field: key, index: entry.index }
+      const value = transformValue
+        ? transformValue(entry.value, { field: key, submitted: entry.key, path: [field.baseName, ...field.path] })
+        : entry.value
+      if (field.path.length === 0) {
+        simpleFields.push({ source, baseName: field.baseName, path: field.path, value })
+        return
+      }
+      const group = fieldGroups.get(field.baseName)
+      if (group) {
+        group.push({ source, path: field.path, value })
+      } else {
+        fieldGroups.set(field.baseName, [{ source, path: field.path, value }])
+      }
+    })
+
+    return { simpleFields, fieldGroups }
+  }
+
+  const setSources = (state: ProcessState, prePath: string[], fieldSources: FieldSource[]): void => {
+    if (state.trackSources) state.sources.set(JSON.stringify(prePath), fieldSources)
+  }
+
+  // Moves the sources of a path and everything under it, when a value is merged into a container
+  const moveSources = (state: ProcessState, from: string[], to: string[]): void => {
+    if (!state.trackSources) return
+    Array.from(state.sources.entries()).forEach(([key, fieldSources]) => {
+      const path = JSON.parse(key) as string[]
+      if (path.length < from.length || from.some((segment, index) => path[index] !== segment)) return
+      state.sources.delete(key)
+      state.sources.set(JSON.stringify([...to, ...path.slice(from.length)]), fieldSources)
+    })
+  }
+
+  // Helper function to add a key to a container
+  const addKey = (target: NestedObject, key: string, value: NestedObject[string]): void => {
+    setOwnKey(target, key, value)
+    const next = nextIndexes.get(target)
+    if (next !== undefined && isIndex(key)) nextIndexes.set(target, Math.max(next, Number(key) + 1))
+  }
+
+  // Reports a path submitted both as a value and with nested fields, throwing under the error policy
+  const reportConflict = (state: ProcessState, source: FieldSource, prePath: string[]): void => {
+    const field = toFieldName(prePath, pathSyntax)
+    const message = `"${field}" was submitted both as a value and with nested fields`
+    if (conflicts === 'error') throw new FormDataParseError('PATH_CONFLICT', source.field, message)
+    state.diagnostics.push({ code: 'PATH_CONFLICT', field: source.field, path: prePath, message })
+  }
+
+  // Helper function to assign a leaf value, applying the repeated key policy
+  const assignValue = (
+    state: ProcessState,
+    target: NestedObject,
+    key: string,
+    value: unknown,
+    source: FieldSource,
+    prePath: string[]
+  ): void => {
+    const existing = target[key]
+    const hasExisting = Object.prototype.hasOwnProperty.call(target, key)
+
+    // An empty container adds nothing to one that nested fields already built
+    if (hasExisting && isPlainContainer(existing) && isEmptyContainer(value)) return
+
+    // Nested fields were already submitted for this path
+    if (hasExisting && isPlainContainer(existing) && !Array.isArray(existing)) {
+      reportConflict(state, source, prePath)
+      if (conflicts === 'prefer-scalar') {
+        setOwnKey(target, key, value)
+        setSources(state, prePath, [source])
+      } else if (conflicts === 'merge') {
+        assignValue(state, existing, MERGED_VALUE_KEY, value, source, [...prePath, MERGED_VALUE_KEY])
+      }
+      return
+    }
+
+    if (!hasExisting) {
+      addKey(target, key, value as SimpleFormValue)
+      setSources(state, prePath, [source])
+      return
+    }
+
+    // Names ending in empty brackets are expected to repeat
+    if (repeatedKeys !== 'error' && !source.field.endsWith('[]')) {
+      state.diagnostics.push({
+        code: 'DUPLICATE_KEY',
+        field: source.field,
+        path: prePath,
+        message: `Field "${source.field}" was submitted more than once`,
+      })
+    }
+
+    switch (repeatedKeys) {
+      case 'first':
+        return
+      case 'last':
+        setOwnKey(target, key, value)
+        setSources(state, prePath, [source])
+        return
+      case 'error':
+        throw new FormDataParseError(
+          'DUPLICATE_KEY',
+          source.field,
+          `Field "${source.field}" was submitted more than once`
+        )
+      default:
+        if (!Array.isArray(existing) && state.trackSources) {
+          // The first value becomes item 0 of the new array
+          setSources(state, [...prePath, '0'], state.sources.get(JSON.stringify(prePath)) ?? [])
+          state.sources.delete(JSON.stringify(prePath))
+        }
+        if (Array.isArray(existing) && collected.has(existing)) {
+          existing.push(value as SimpleFormValue)
+        } else {
+          const values = [...(Array.isArray(existing) ? existing : [existing]), value as SimpleFormValue]
+          collected.add(values)
+          setOwnKey(target, key, values)
+        }
+        setSources(state, [...prePath, String((target[key] as unknown[]).length - 1)], [source])
+    }
+  }
+
+  // Helper function to apply the empty string policy to a leaf value
+  const prepareValue = (value: unknown, isNested: boolean): { value: unknown } | null => {
+    const prepared = typeof value === 'string' && trimStrings ? value.trim() : value
+    if (typeof prepared !== 'string' || prepared.trim() !== '') return { value: prepared }
+
+    switch (emptyStrings ?? (isNested ? 'drop' : 'keep')) {
+      case 'drop':
+        return null
+      case 'null':
+        return { value: null }
+      default:
+        return { value: prepared }
+    }
+  }
+
+  // Helper function to resolve an empty bracket segment to the next free array index
+  const resolveKey = (obj: NestedObject, key: string): string => {
+    if (key !== '') return key
+    let next = nextIndexes.get(obj)
+    if (next === undefined) {
+      next = Object.keys(obj).reduce(
+        (max, existing) => (isIndex(existing) ? Math.max(max, Number(existing) + 1) : max),
+        0
+      )
+      nextIndexes.set(obj, next)
+    }
+    return String(next)
+  }
 
   // Helper function to set a value at a nested path
-  const setNestedValue = (obj: NestedObject, path: string[], value: unknown): void => {
+  const setNestedValue = (
+    state: ProcessState,
+    obj: NestedObject,
+    path: string[],
+    value: unknown,
+    source: FieldSource,
+    prePath: string[]
+  ): void => {
     if (path.length === 0) return
 
     let current = obj
     const lastIndex = path.length - 1
+    const resolvedPath = [...prePath]
 
     for (let i = 0; i < lastIndex; i++) {
-      const key = path[i]
-      const nextKey = path[i + 1]
-      const isNextKeyNumeric = !isNaN(parseInt(nextKey))
+      const key = resolveKey(current, path[i])
+      resolvedPath.push(key)
 
-      // If key doesn't exist or is not an object, initialize it
-      if (!current[key] || typeof current[key] !== 'object') {
-        current[key] = isNextKeyNumeric ? ({} as NestedObject) : ({} as NestedObject)
-      }
-      // If next key is numeric but current key is not an array, prepare it for potential array conversion
-      else if (isNextKeyNumeric && !Array.isArray(current[key])) {
-        // Keep it as an object - arrays will be converted during normalization phase
-        const tempObj = current[key] as NestedObject
-        // We leave it as an object because TypeScript has issues with the dynamic conversion
-        current[key] = tempObj
+      // Initialize missing containers; containers with index keys are converted
+      // to arrays during the normalization phase
+      const existing = current[key]
+      if (!Object.prototype.hasOwnProperty.call(current, key) || (Array.isArray(existing) && existing.length === 0)) {
+        addKey(current, key, {} as NestedObject)
+      } else if (!isPlainContainer(existing) || Array.isArray(existing)) {
+        // A value was already submitted for this path
+        reportConflict(state, source, resolvedPath)
+        if (conflicts === 'prefer-scalar') return
+        setOwnKey(current, key, conflicts === 'merge' ? { [MERGED_VALUE_KEY]: existing } : {})
+        if (conflicts === 'merge') moveSources(state, resolvedPath, [...resolvedPath, MERGED_VALUE_KEY])
       }
 
       current = current[key] as NestedObject
     }
 
     // Set the final value
-    const finalKey = path[lastIndex]
+    const finalKey = resolveKey(current, path[lastIndex])
 
-    // Only set non-empty string values
-    if (typeof value !== 'string' || value.trim() !== '') {
-      current[finalKey] = value as SimpleFormValue
+    // Only set values the empty string policy keeps
+    const prepared = prepareValue(value, true)
+    if (prepared) {
+      assignValue(state, current, finalKey, prepared.value, source, [...resolvedPath, finalKey])
     }
   }
 
-  // Helper function to convert objects with numeric keys to arrays
+  // Helper function to check for an object without any non-empty value
+  const isEmptyObject = (item: unknown): boolean =>
+    isPlainContainer(item) &&
+    !Array.isArray(item) &&
+    !Object.values(item).some(
+      val => val !== null && ((typeof val === 'string' && val.trim() !== '') || typeof val !== 'string')
+    )
+
+  // Empty objects are pruned everywhere when enabled, and by default only from top-level arrays
+  const shouldPrune = (depth: number): boolean => pruneEmptyObjects ?? depth === 0
+
+  // Helper function to build an array from [pre-normalization key, value] pairs, remembering the keys;
+  // removed items (undefined) are compacted away or kept as null holes
+  const toArray = (
+    state: ProcessState,
+    pairs: Array<[string, SimpleFormValue | NestedObject | undefined]>
+  ): Array<SimpleFormValue | NestedObject> => {
+    const kept = compactArrays
+      ? pairs.filter(([, value]) => value !== undefined)
+      : pairs.map(([key, value]): [string, SimpleFormValue | NestedObject | undefined] => [key, value ?? null])
+    const array = kept.map(([, value]) => value as SimpleFormValue | NestedObject)
+    if (state.trackSources) {
+      arrayKeys.set(
+        array,
+        kept.map(([key]) => key)
+      )
+    }
+    return array
+  }
+
+  // Pre-normalization paths are only read to match object paths and report mixed keys, so
+  // otherwise children share their parent's path instead of allocating one per node
+  const needsPaths = objectPaths.length > 0 || mixedKeys === 'error'
+  const childPath = (path: string[], key: string): string[] => (needsPaths ? [...path, key] : path)
+
+  // Helper function to normalize an array item, removing it if it is empty
+  const normalizeItem = (
+    state: ProcessState,
+    item: unknown,
+    depth: number,
+    path: string[]
+  ): SimpleFormValue | NestedObject | undefined => {
+    const normalized = normalizeStructure(state, item, path, depth + 1) as SimpleFormValue | NestedObject
+    return shouldPrune(depth) && isEmptyObject(normalized) ? undefined : normalized
+  }
+
+  // Helper function to convert objects with index keys to arrays; path is the pre-normalization path of the item
   const normalizeStructure = (
-    item: unknown
+    state: ProcessState,
+    item: unknown,
+    path: string[],
+    depth = 0
   ): SimpleFormValue | NestedObject | Array<SimpleFormValue | NestedObject> => {
-    // Handle primitive values
-    if (item === null || typeof item !== 'object') {
+    // Handle primitive values, files and dates
+    if (!isPlainContainer(item)) {
       return item as SimpleFormValue
     }
 
-    // Handle arrays
+    // Handle arrays of repeated values; without an explicit empty string policy null values are removed
     if (Array.isArray(item)) {
-      return item.map(val => normalizeStructure(val)).filter(Boolean) as Array<SimpleFormValue | NestedObject>
+      return toArray(
+        state,
+        item.map((val, index): [string, SimpleFormValue | NestedObject | undefined] => {
+          const normalized = normalizeItem(state, val, depth, childPath(path, String(index)))
+          const isEmpty = normalized === null || normalized === undefined || normalized === ''
+          return [String(index), emptyStrings === undefined && isEmpty ? undefined : normalized]
+        })
+      )
     }
 
-    // Check if object should be an array (all keys are numeric)
+    // Check if object should be an array (all keys are indices and the path is not forced into object mode)
     const obj = item as Record<string, unknown>
     const keys = Object.keys(obj)
-    const allNumericKeys = keys.length > 0 && keys.every(key => !isNaN(parseInt(key)))
+    const indexCount = isObjectPath(path) ? 0 : keys.reduce((count, key) => (isIndex(key) ? count + 1 : count), 0)
+
+    if (indexCount > 0 && indexCount < keys.length && mixedKeys === 'error') {
+      const field = toFieldName(path, pathSyntax)
+      throw new FormDataParseError('MIXED_KEYS', field, `Field "${field}" has both array indices and named keys`)
+    }
 
-    if (allNumericKeys) {
+    if (keys.length > 0 && indexCount === keys.length) {
       // Convert to array
-      const array: Array<SimpleFormValue | NestedObject> = []
-      keys
-        .sort((a, b) => parseInt(a) - parseInt(b))
-        .forEach(key => {
-          array[parseInt(key)] = normalizeStructure(obj[key]) as SimpleFormValue | NestedObject
-        })
-      return array.filter(val => val !== undefined) as Array<SimpleFormValue | NestedObject>
+      // Values are pushed in index order so large indices never allocate a sparse array
+      const sortedKeys = keys.sort((a, b) => Number(a) - Number(b))
+
+      // Without compaction every missing index becomes a hole
+      if (!compactArrays) {
+        const byIndex = new Map(sortedKeys.map(key => [Number(key), key]))
+        const length = Number(sortedKeys[sortedKeys.length - 1]) + 1
+        return toArray(
+          state,
+          Array.from({ length }, (_, index): [string, SimpleFormValue | NestedObject | undefined] => {
+            const key = byIndex.get(index)
+            return [
+              String(index),
+              key === undefined ? undefined : normalizeItem(state, obj[key], depth, childPath(path, key)),
+            ]
+          })
+        )
+      }
+
+      return toArray(
+        state,
+        sortedKeys.map(key => [key, normalizeItem(state, obj[key], depth, childPath(path, key))])
+      )
     }
 
     // Process regular object
     const resultObj: NestedObject = {}
     Object.entries(obj).forEach(([key, value]) => {
-      const normalized = normalizeStructure(value)
-      if (normalized !== undefined) {
-        resultObj[key] = normalized as SimpleFormValue | NestedObject | Array<SimpleFormValue | NestedObject>
+      const normalized = normalizeStructure(state, value, childPath(path, key), depth + 1)
+      if (normalized !== undefined && !(pruneEmptyObjects && isEmptyObject(normalized))) {
+        setOwnKey(resultObj, key, normalized)
       }
     })
     return resultObj
   }
 
-  // Process each field group
-  Object.entries(fieldGroups).forEach(([groupName, fields]) => {
-    // Check if top level is an array
-    const isArrayStructure = fields.every(field => field.path.length > 0 && !isNaN(parseInt(field.path[0])))
+  /**
+   * Creates the function that turns output keys back into submitted names: keys renamed in this
+   * call map back to their submitted spelling, and other keys go through the inverse of the key
+   * mapping, in the case of the submitted names
+   * @param renamedKeys - The submitted name of each renamed key
+   * @returns The function
+   */
+  const submittedNames = (renamedKeys: Map<string, string>): ((segments: string[]) => string[]) => {
+    if (!mapKeys) return segments => segments
+    const inverse = createInverseKeyMapper({
+      keyTransform: options.fieldCase ?? detectKeyCase([...renamedKeys.values()]),
+      aliases: options.aliases,
+    })
+    return segments => {
+      const inverted = inverse ? inverse(segments) : segments
+      return segments.map((segment, index) => renamedKeys.get(segment) ?? inverted[index])
+    }
+  }
+
+  /**
+   * Converts form data into a structured object, optionally tracking where each value came from
+   * @param data - The data to process
+   * @param trackSources - Whether to record the fields behind each value
+   * @returns The structured object, its diagnostics and, when tracking, its source map
+   */
+  const run = (
+    data: FormDataInput,
+    trackSources: boolean
+  ): { result: ProcessedFormData; sourceMap: FormDataSourceMap | null; diagnostics: FormDataDiagnostic[] } => {
+    const state: ProcessState = { trackSources, sources: new Map(), renamedKeys: new Map(), diagnostics: [] }
+    const { simpleFields, fieldGroups } = tokenize(state, readEntries(data))
+    let result: ProcessedFormData = {}
+
+    // Process simple fields (no path)
+    simpleFields.forEach(({ source, baseName, value }) => {
+      const prepared = prepareValue(value, false)
+      if (prepared) assignValue(state, result, baseName, prepared.value, source, [baseName])
+    })
 
-    if (isArrayStructure) {
-      // Array structure (e.g., items[0], items[1])
+    // Process each field group
+    fieldGroups.forEach((fields, groupName) => {
+      // Array structures (e.g., items[0], items[1]) and object structures (e.g., user[name], user[email])
+      // are both built in a temporary object that is normalized into arrays where needed
       const tempObj: NestedObject = {}
 
+      // A simple field with the same name, e.g. `user` and `user[name]`; an empty container is not a conflict
+      if (Object.prototype.hasOwnProperty.call(result, groupName) && !isEmptyContainer(result[groupName])) {
+        reportConflict(state, fields[0].source, [groupName])
+        if (conflicts === 'prefer-scalar') return
+        if (conflicts === 'merge') {
+          tempObj[MERGED_VALUE_KEY] = result[groupName]
+          moveSources(state, [groupName], [groupName, MERGED_VALUE_KEY])
+        }
+      }
+
       fields.forEach(field => {
-        // For all field paths, store them in temporary object that will be normalized later
-        setNestedValue(tempObj, field.path, field.value)
+        setNestedValue(state, tempObj, field.path, field.value, field.source, [groupName])
       })
 
-      // Convert the temporary object to proper arrays where needed
-      const normalized = normalizeStructure(tempObj)
-
-      // Filter empty objects from the array
-      if (Array.isArray(normalized)) {
-        result[groupName] = normalized.filter(item => {
-          if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
-            // Keep objects that have at least one non-empty value
-            return Object.values(item as object).some(
-              val => val !== null && ((typeof val === 'string' && val.trim() !== '') || typeof val !== 'string')
-            )
-          }
-          return item !== undefined
-        })
-      } else {
-        result[groupName] = normalized
+      // Convert the temporary object to proper arrays, filtering empty objects from the top-level array
+      const normalized = normalizeStructure(state, tempObj, [groupName])
+
+      if (!(pruneEmptyObjects && isEmptyObject(normalized))) {
+        setOwnKey(result, groupName, normalized)
       }
-    } else {
-      // Object structure (e.g., user[name], user[email])
-      const obj: NestedObject = {}
+    })
 
-      fields.forEach(field => {
-        setNestedValue(obj, field.path, field.value)
-      })
+    if (afterNormalize) result = afterNormalize(result)
 
-      result[groupName] = normalizeStructure(obj)
+    return {
+      result,
+      sourceMap: trackSources
+        ? buildSourceMap(result, state.sources, arrayKeys, pathSyntax, submittedNames(state.renamedKeys))
+        : null,
+      diagnostics: state.diagnostics,
     }
-  })
+  }
 
-  return result
+  return {
+    process: data => run(data, false).result,
+    processWithSourceMap: data => {
+      const { result, sourceMap } = run(data, true)
+      return { result, sourceMap: sourceMap as FormDataSourceMap }
+    },
+    processWithDiagnostics: data => {
+      const { result, diagnostics } = run(data, false)
+      return { result, diagnostics }
+    },
+  }
+}
+
+// Compiled for the defaults on first use, since most calls pass no options
+let defaultProcessor: FormDataProcessor | null = null
+
+// Helper function to get the processor for a call's options, compiled for that call alone when it has some
+const getProcessor = (options?: ProcessFormDataOptions): FormDataProcessor =>
+  options ? compileFormDataParser(options) : (defaultProcessor ??= compileFormDataParser())
+
+/**
+ * Generic function to convert form data into a structured object
+ * @param data - The data to process: FormData, URLSearchParams, a query string, entries or a Record object
+ * @param options - Parsing options such as the repeated key policy
+ * @returns Structured form data object
+ */
+export function processFormData(data: FormDataInput, options?: ProcessFormDataOptions): ProcessedFormData {
+  return getProcessor(options).process(data)
+}
+
+/**
+ * Converts form data into a structured object along with a source map that links
+ * every value back to the submitted field that produced it
+ * @param data - The data to process: FormData, URLSearchParams, a query string, entries or a Record object
+ * @param options - Parsing options such as the repeated key policy
+ * @returns The structured object and its source map
+ */
+export function processFormDataWithSourceMap(
+  data: FormDataInput,
+  options?: ProcessFormDataOptions
+): { result: ProcessedFormData; sourceMap: FormDataSourceMap } {
+  return getProcessor(options).processWithSourceMap(data)
+}
+
+/**
+ * Converts form data into a structured object along with the problems that were
+ * resolved by a policy, such as conflicting paths and repeated fields
+ * @param data - The data to process: FormData, URLSearchParams, a query string, entries or a Record object
+ * @param options - Parsing options such as the conflict policy
+ * @returns The structured object and its diagnostics
+ */
+export function processFormDataWithDiagnostics(
+  data: FormDataInput,
+  options?: ProcessFormDataOptions
+): { result: ProcessedFormData; diagnostics: FormDataDiagnostic[] } {
+  return getProcessor(options).processWithDiagnostics(data)
 }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import { createInverseKeyMapper, createKeyMapper, toCamelCase, toKebabCase, toSnakeCase } from './keyUtils'
+
+describe('case converters', () => {
+  it.each([
+    ['firstName', 'firstName', 'first_name', 'first-name'],
+    ['first_name', 'firstName', 'first_name', 'first-name'],
+    ['first-name', 'firstName', 'first_name', 'first-name'],
+    ['userID', 'userId', 'user_id', 'user-id'],
+    ['HTMLParser', 'htmlParser', 'html_parser', 'html-parser'],
+    ['address2Line', 'address2Line', 'address2_line', 'address2-line'],
+    ['_method', '_method', '_method', '_method'],
+    ['name', 'name', 'name', 'name'],
+  ])('should convert %s', (key, camel, snake, kebab) => {
+    expect(toCamelCase(key)).toBe(camel)
+    expect(toSnakeCase(key)).toBe(snake)
+    expect(toKebabCase(key)).toBe(kebab)
+  })
+})
+
+describe('createKeyMapper', () => {
+  it('should return null when there is nothing to rename', () => {
+    expect(createKeyMapper({})).toBeNull()
+    expect(createInverseKeyMapper({})).toBeNull()
+  })
+
+  it('should only apply aliases whose whole path matches', () => {
+    const mapKeys = createKeyMapper({ aliases: { 'user[mail]': 'email', 'rows[][]': 'never' } })!
+
+    expect(mapKeys(['user', 'mail'])).toEqual(['user', 'email'])
+    expect(mapKeys(['admin', 'mail'])).toEqual(['admin', 'mail'])
+    expect(mapKeys(['user', 'mail', 'primary'])).toEqual(['user', 'email', 'primary'])
+  })
+
+  it('should invert aliases and transforms', () => {
+    const options = { keyTransform: 'snake', aliases: { 'items[][itemName]': 'title' } } as const
+    const inverse = createInverseKeyMapper({ ...options, keyTransform: 'camel' })!
+
+    expect(createKeyMapper(options)!(['items', '3', 'itemName'])).toEqual(['items', '3', 'title'])
+    expect(inverse(['items', '3', 'title'])).toEqual(['items', '3', 'itemName'])
+    expect(inverse(['items', '3', 'unit_price'])).toEqual(['items', '3', 'unitPrice'])
+  })
+})
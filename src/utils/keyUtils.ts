@@ -0,0 +1,141 @@
+import { parseFieldName } from './formUtils'
+
+/**
+ * Type definitions for renaming keys
+ */
+export type KeyCase = 'camel' | 'snake' | 'kebab'
+
+export type KeyTransform = (key: string) => string
+
+/**
+ * Output key names by field name, e.g. `{ 'profile[][emailAddr]': 'email' }`.
+ * Field names use bracket notation, `[]` matches any array index, and renaming
+ * a key also moves everything nested under it.
+ */
+export type KeyAliases = Record<string, string>
+
+export interface KeyMappingOptions {
+  // Converts every object key; array indices are left alone
+  keyTransform?: KeyCase | KeyTransform
+  // Renames specific fields; aliased keys are used as-is rather than transformed
+  aliases?: KeyAliases
+}
+
+/**
+ * Splits a key into lowercase words at underscores, dashes, spaces and case changes
+ * @param key - The key, e.g. `userID`, `first_name` or `HTMLParser`
+ * @returns The words, e.g. `['user', 'id']`
+ */
+function splitWords(key: string): string[] {
+  return key
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(word => word !== '')
+    .map(word => word.toLowerCase())
+}
+
+/**
+ * Builds a case converter that keeps leading underscores and dashes, as in `_method`
+ * @param join - Joins the lowercase words of the key
+ * @returns The converter
+ */
+const createCaseConverter =
+  (join: (words: string[]) => string): KeyTransform =>
+  key => {
+    const prefix = /^[_-]*/.exec(key)?.[0] ?? ''
+    return prefix + join(splitWords(key.substring(prefix.length)))
+  }
+
+export const toCamelCase = createCaseConverter(words =>
+  words.map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.substring(1))).join('')
+)
+
+export const toSnakeCase = createCaseConverter(words => words.join('_'))
+
+export const toKebabCase = createCaseConverter(words => words.join('-'))
+
+export const KEY_CASES: Record<KeyCase, KeyTransform> = {
+  camel: toCamelCase,
+  snake: toSnakeCase,
+  kebab: toKebabCase,
+}
+
+/**
+ * Detects the case that names are written in, e.g. to turn output keys back into field names
+ * @param keys - The names, e.g. `['firstName', 'zipCode']`
+ * @returns The case all of the names are in, or undefined if there is none
+ */
+export function detectKeyCase(keys: string[]): KeyCase | undefined {
+  if (keys.length === 0) return undefined
+  return (Object.keys(KEY_CASES) as KeyCase[]).find(keyCase => keys.every(key => KEY_CASES[keyCase](key) === key))
+}
+
+// Empty brackets and integer keys address array items and are never renamed
+const isIndexSegment = (segment: string): boolean => /^\d*$/.test(segment)
+
+interface ParsedAlias {
+  pattern: string[]
+  name: string
+}
+
+const parseAliases = (aliases: KeyAliases): ParsedAlias[] =>
+  Object.entries(aliases).map(([field, name]) => {
+    const parsed = parseFieldName(field)
+    return { pattern: parsed ? [parsed.baseName, ...parsed.path] : [field], name }
+  })
+
+// Whether a pattern matches a path exactly, with `[]` matching any index
+const matchesPattern = (pattern: string[], segments: string[]): boolean =>
+  pattern.length === segments.length &&
+  pattern.every((part, index) => part === segments[index] || (part === '' && isIndexSegment(segments[index])))
+
+/**
+ * Creates a function that renames the segments of a submitted field into output keys
+ * @param options - The key transform and aliases
+ * @returns The mapper, or null when there is nothing to rename
+ */
+export function createKeyMapper(options: KeyMappingOptions): ((segments: string[]) => string[]) | null {
+  const { keyTransform, aliases } = options
+  if (!keyTransform && !aliases) return null
+
+  const transform = typeof keyTransform === 'string' ? KEY_CASES[keyTransform] : keyTransform
+  const parsedAliases = parseAliases(aliases ?? {})
+
+  return segments =>
+    segments.map((segment, index) => {
+      const alias = parsedAliases.find(({ pattern }) => matchesPattern(pattern, segments.slice(0, index + 1)))
+      if (alias) return alias.name
+      return transform && !isIndexSegment(segment) ? transform(segment) : segment
+    })
+}
+
+/**
+ * Creates the inverse of createKeyMapper, for turning output keys back into field names:
+ * aliased keys map back to their field names and other keys are converted to the input case
+ * @param options - The case of the input names and the same aliases used for processing
+ * @returns The mapper, or null when there is nothing to rename
+ */
+export function createInverseKeyMapper(options: KeyMappingOptions): ((segments: string[]) => string[]) | null {
+  const { keyTransform, aliases } = options
+  if (!keyTransform && !aliases) return null
+
+  const transform = typeof keyTransform === 'string' ? KEY_CASES[keyTransform] : keyTransform
+  const parsedAliases = parseAliases(aliases ?? {})
+
+  return segments => {
+    const fieldSegments: string[] = []
+    segments.forEach((segment, index) => {
+      const alias = parsedAliases.find(
+        ({ pattern, name }) =>
+          name === segment && pattern.length === index + 1 && matchesPattern(pattern.slice(0, index), fieldSegments)
+      )
+      if (alias) {
+        fieldSegments.push(alias.pattern[index])
+      } else {
+        fieldSegments.push(transform && !isIndexSegment(segment) ? transform(segment) : segment)
+      }
+    })
+    return fieldSegments
+  }
+}
@@ -0,0 +1,326 @@
+import { describe, expect, it } from 'vitest'
+
+import { FormDataParseError } from './formUtils'
+import {
+  FileStorageHandler,
+  getMultipartBoundary,
+  MultipartPart,
+  parseMultipart,
+  processMultipart,
+} from './multipartUtils'
+
+describe('processMultipart', () => {
+  const boundary = '----formdata-fixture-7MA4YWxkTrZu0gW'
+
+  // Helper function to build a multipart body from parts, each given as [headers, body]
+  function createBody(parts: Array<[string[], string]>, { preamble = '', epilogue = '' } = {}): string {
+    return (
+      preamble +
+      parts.map(([headers, body]) => `--${boundary}\r\n${headers.join('\r\n')}\r\n\r\n${body}\r\n`).join('') +
+      `--${boundary}--\r\n` +
+      epilogue
+    )
+  }
+
+  // Helper function to stream a body in chunks of a fixed size
+  function createStream(body: string | Uint8Array, chunkSize = 64): ReadableStream<Uint8Array> {
+    const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body
+    let offset = 0
+    return new ReadableStream({
+      pull(controller) {
+        if (offset >= bytes.length) {
+          controller.close()
+          return
+        }
+        controller.enqueue(bytes.slice(offset, offset + chunkSize))
+        offset += chunkSize
+      },
+    })
+  }
+
+  const field = (name: string, value: string): [string[], string] => [
+    [`Content-Disposition: form-data; name="${name}"`],
+    value,
+  ]
+
+  const file = (name: string, filename: string, content: string, type = 'text/plain'): [string[], string] => [
+    [`Content-Disposition: form-data; name="${name}"; filename="${filename}"`, `Content-Type: ${type}`],
+    content,
+  ]
+
+  // Helper function to read a File's bytes; jsdom's File has no text() or arrayBuffer()
+  function readFile(value: unknown): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+      reader.onerror = () => reject(reader.error)
+      reader.readAsArrayBuffer(value as File)
+    })
+  }
+
+  const readText = async (value: unknown): Promise<string> => new TextDecoder().decode(await readFile(value))
+
+  const fixture = createBody([
+    field('contactMethod', 'email'),
+    field('profile[0][name]', 'John Doe'),
+    field('profile[0][tags][]', 'developer'),
+    field('profile[0][tags][]', 'javascript'),
+    file('profile[0][avatar]', 'avatar.png', '\x89PNG fake image data', 'image/png'),
+    field('profile[1][name]', 'Jane Smith'),
+    file('attachments[]', 'notes.txt', 'line one\r\nline two\r\n'),
+    file('attachments[]', 'empty.txt', ''),
+  ])
+
+  it('should nest fields and collect files in memory', async () => {
+    const result = await processMultipart(createStream(fixture), { boundary })
+
+    expect(result).toEqual({
+      contactMethod: 'email',
+      profile: [
+        { name: 'John Doe', tags: ['developer', 'javascript'], avatar: expect.any(File) },
+        { name: 'Jane Smith' },
+      ],
+      attachments: [expect.any(File), expect.any(File)],
+    })
+
+    const avatar = (result.profile as Array<Record<string, File>>)[0].avatar
+    expect(avatar.name).toBe('avatar.png')
+    expect(avatar.type).toBe('image/png')
+
+    const attachments = result.attachments as File[]
+    expect(await readText(attachments[0])).toBe('line one\r\nline two\r\n')
+    expect(attachments[1].size).toBe(0)
+  })
+
+  it.each([1, 2, 3, 7, 41, 4096])('should give the same result when read in chunks of %i bytes', async chunkSize => {
+    const result = await processMultipart(createStream(fixture, chunkSize), { boundary })
+
+    expect(result.contactMethod).toBe('email')
+    expect(await readText((result.attachments as File[])[0])).toBe('line one\r\nline two\r\n')
+  })
+
+  it('should ignore the preamble, epilogue and transport padding', async () => {
+    const body = createBody([field('name', 'John Doe')], {
+      preamble: 'This is a multipart message.\r\n',
+      epilogue: 'trailing text',
+    }).replace(`--${boundary}\r\n`, `--${boundary}  \t\r\n`)
+
+    expect(await processMultipart(createStream(body), { boundary })).toEqual({ name: 'John Doe' })
+  })
+
+  it('should decode escaped names and UTF-8 text', async () => {
+    const body = createBody([field('user[%22nick%22]', 'Zoë'), field('city', 'São Paulo')])
+
+    expect(await processMultipart(createStream(body, 3), { boundary })).toEqual({
+      user: { '"nick"': 'Zoë' },
+      city: 'São Paulo',
+    })
+  })
+
+  it('should keep file content that resembles a boundary', async () => {
+    const content = `\r\n--${boundary.substring(0, 10)}\r\n--\r\n-`
+    const body = createBody([file('upload', 'tricky.bin', content)])
+
+    const result = await processMultipart(createStream(body, 5), { boundary })
+
+    expect(await readText(result.upload)).toBe(content)
+  })
+
+  it('should keep binary file content intact', async () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, index) => index)
+    const encoder = new TextEncoder()
+    const body = [
+      encoder.encode(
+        `--${boundary}\r\nContent-Disposition: form-data; name="blob"; filename="bytes.bin"\r\n` +
+          'Content-Type: application/octet-stream\r\n\r\n'
+      ),
+      bytes,
+      encoder.encode(`\r\n--${boundary}--\r\n`),
+    ]
+    const joined = new Uint8Array(body.reduce((length, part) => length + part.length, 0))
+    body.reduce((offset, part) => (joined.set(part, offset), offset + part.length), 0)
+
+    const result = await processMultipart(createStream(joined, 10), { boundary })
+
+    expect(await readFile(result.blob)).toEqual(bytes)
+  })
+
+  it('should hand file streams to a storage handler', async () => {
+    const stored: Record<string, string> = {}
+    const onFile: FileStorageHandler = async part => {
+      const text = new TextDecoder().decode(await readStream(part.stream))
+      const id = `upload-${Object.keys(stored).length}`
+      stored[id] = `${part.filename}:${part.contentType}:${text}`
+      return id
+    }
+
+    const result = await processMultipart(createStream(fixture, 8), { boundary, onFile })
+
+    expect(result.attachments).toEqual(['upload-1', 'upload-2'])
+    expect(stored).toEqual({
+      'upload-0': 'avatar.png:image/png:\x89PNG fake image data',
+      'upload-1': 'notes.txt:text/plain:line one\r\nline two\r\n',
+      'upload-2': 'empty.txt:text/plain:',
+    })
+  })
+
+  it('should leave out files the handler discards without reading them', async () => {
+    const result = await processMultipart(createStream(fixture), { boundary, onFile: async () => undefined })
+
+    expect(result).toEqual({
+      contactMethod: 'email',
+      profile: [{ name: 'John Doe', tags: ['developer', 'javascript'] }, { name: 'Jane Smith' }],
+    })
+  })
+
+  it('should pass processFormData options through', async () => {
+    const body = createBody([field('user.name', ' John '), field('user.email', '')])
+
+    expect(
+      await processMultipart(createStream(body), {
+        boundary,
+        pathSyntax: 'dot',
+        trimStrings: true,
+        emptyStrings: 'null',
+      })
+    ).toEqual({ user: { name: 'John', email: null } })
+  })
+
+  describe('parseMultipart', () => {
+    it('should yield parts incrementally in body order', async () => {
+      const parts: Array<[MultipartPart['kind'], string]> = []
+      for await (const part of parseMultipart(createStream(fixture, 16), { boundary })) {
+        parts.push([part.kind, part.name])
+      }
+
+      expect(parts).toEqual([
+        ['field', 'contactMethod'],
+        ['field', 'profile[0][name]'],
+        ['field', 'profile[0][tags][]'],
+        ['field', 'profile[0][tags][]'],
+        ['file', 'profile[0][avatar]'],
+        ['field', 'profile[1][name]'],
+        ['file', 'attachments[]'],
+        ['file', 'attachments[]'],
+      ])
+    })
+
+    it('should stop reading the body when iteration ends early', async () => {
+      let pulls = 0
+      const bytes = new TextEncoder().encode(fixture)
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          controller.enqueue(bytes.slice(pulls * 16, ++pulls * 16))
+        },
+      })
+
+      for await (const part of parseMultipart(stream, { boundary })) {
+        expect(part.name).toBe('contactMethod')
+        break
+      }
+
+      expect(pulls * 16).toBeLessThan(bytes.length / 2)
+    })
+  })
+
+  describe('limits', () => {
+    const rejectionOf = async (promise: Promise<unknown>): Promise<FormDataParseError> => {
+      const error = await promise.then(
+        () => null,
+        (reason: unknown) => reason
+      )
+      expect(error).toBeInstanceOf(FormDataParseError)
+      return error as FormDataParseError
+    }
+
+    it('should reject a file larger than maxFileSize', async () => {
+      const body = createBody([file('avatar', 'big.png', 'x'.repeat(100), 'image/png')])
+
+      const error = await rejectionOf(processMultipart(createStream(body, 10), { boundary, maxFileSize: 50 }))
+
+      expect(error.code).toBe('MAX_FILE_SIZE')
+      expect(error.field).toBe('avatar')
+    })
+
+    it('should enforce file limits even when the handler skips the file', async () => {
+      const body = createBody([file('avatar', 'big.png', 'x'.repeat(100))])
+
+      const error = await rejectionOf(
+        processMultipart(createStream(body, 10), { boundary, maxFileSize: 50, onFile: async () => null })
+      )
+
+      expect(error.code).toBe('MAX_FILE_SIZE')
+    })
+
+    it('should reject files larger than maxTotalFileSize combined', async () => {
+      const body = createBody([file('files[]', 'a.txt', 'x'.repeat(40)), file('files[]', 'b.txt', 'y'.repeat(40))])
+
+      const error = await rejectionOf(processMultipart(createStream(body), { boundary, maxTotalFileSize: 60 }))
+
+      expect(error.code).toBe('MAX_TOTAL_FILE_SIZE')
+      expect(error.field).toBe('files[]')
+    })
+
+    it('should reject text fields larger than maxFieldSize', async () => {
+      const body = createBody([field('bio', 'x'.repeat(100))])
+
+      const error = await rejectionOf(processMultipart(createStream(body), { boundary, maxFieldSize: 10 }))
+
+      expect(error.code).toBe('MAX_FIELD_SIZE')
+      expect(error.field).toBe('bio')
+    })
+
+    it('should stop at maxKeys while streaming', async () => {
+      const body = createBody(Array.from({ length: 5 }, (_, index) => field(`items[${index}]`, 'x')))
+
+      const error = await rejectionOf(processMultipart(createStream(body), { boundary, maxKeys: 3 }))
+
+      expect(error.code).toBe('MAX_KEYS')
+      expect(error.field).toBe('items[3]')
+    })
+
+    it('should skip limits when not hardened', async () => {
+      const body = createBody([file('avatar', 'big.png', 'x'.repeat(100))])
+
+      const result = await processMultipart(createStream(body), { boundary, maxFileSize: 10, hardened: false })
+
+      expect((result.avatar as File).size).toBe(100)
+    })
+
+    it.each([
+      ['a body without the boundary', 'just some text'],
+      ['a body without a closing boundary', createBody([field('name', 'John')]).replace(`--${boundary}--\r\n`, '')],
+      ['a part without a name', `--${boundary}\r\nContent-Type: text/plain\r\n\r\nvalue\r\n--${boundary}--`],
+      ['unterminated headers', `--${boundary}\r\nContent-Disposition: form-data; name="a"`],
+    ])('should reject %s as malformed', async (_, body) => {
+      const error = await rejectionOf(processMultipart(createStream(body), { boundary }))
+
+      expect(error.code).toBe('MALFORMED_MULTIPART')
+    })
+  })
+
+  // Helper function to read a whole stream into one byte array
+  async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    const reader = stream.getReader()
+    const chunks: number[] = []
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      chunks.push(...result.value)
+    }
+    return new Uint8Array(chunks)
+  }
+})
+
+describe('getMultipartBoundary', () => {
+  it('should read plain and quoted boundaries', () => {
+    expect(getMultipartBoundary('multipart/form-data; boundary=----WebKitFormBoundary7MA4')).toBe(
+      '----WebKitFormBoundary7MA4'
+    )
+    expect(getMultipartBoundary('Multipart/Form-Data; charset=utf-8; boundary="a b;c"')).toBe('a b;c')
+  })
+
+  it('should return null for other content types', () => {
+    expect(getMultipartBoundary('application/x-www-form-urlencoded')).toBeNull()
+    expect(getMultipartBoundary('multipart/mixed; boundary=abc')).toBeNull()
+    expect(getMultipartBoundary('multipart/form-data')).toBeNull()
+  })
+})
@@ -0,0 +1,354 @@
+import {
+  DEFAULT_LIMITS,
+  FormDataErrorCode,
+  FormDataParseError,
+  processFormData,
+  ProcessedFormData,
+  ProcessFormDataOptions,
+} from './formUtils'
+
+/**
+ * Type definitions for streaming multipart/form-data parsing
+ */
+export interface MultipartTextPart {
+  kind: 'field'
+  name: string
+  value: string
+}
+
+export interface MultipartFilePart {
+  kind: 'file'
+  name: string
+  // The submitted file name; empty when a file input was left blank
+  filename: string
+  contentType: string
+  // The file body; read it before moving on to the next part, or it is skipped
+  stream: ReadableStream<Uint8Array>
+}
+
+export type MultipartPart = MultipartTextPart | MultipartFilePart
+
+/**
+ * Stores one uploaded file and returns the value to use for its field, e.g. a File
+ * or the path it was written to. Returning null or undefined leaves the field out.
+ */
+export type FileStorageHandler = (part: MultipartFilePart) => Promise<string | File | null | undefined>
+
+/**
+ * Size limits in bytes, applied in hardened mode
+ * - `maxFieldSize`: largest text field value
+ * - `maxFileSize`: largest single file
+ * - `maxTotalFileSize`: all files in the body combined
+ */
+export interface MultipartLimits {
+  maxFieldSize: number
+  maxFileSize: number
+  maxTotalFileSize: number
+}
+
+export const DEFAULT_MULTIPART_LIMITS: MultipartLimits = {
+  maxFieldSize: 1024 * 1024,
+  maxFileSize: 10 * 1024 * 1024,
+  maxTotalFileSize: 50 * 1024 * 1024,
+}
+
+export interface MultipartOptions extends ProcessFormDataOptions, Partial<MultipartLimits> {
+  // The boundary from the Content-Type header, see getMultipartBoundary
+  boundary: string
+  // Where file parts go (default: memoryStorage)
+  onFile?: FileStorageHandler
+}
+
+// Largest header block accepted for a single part
+const MAX_HEADER_SIZE = 16 * 1024
+
+const CRLF = new Uint8Array([0x0d, 0x0a])
+const HEADER_END = new Uint8Array([0x0d, 0x0a, 0x0d, 0x0a])
+
+/**
+ * Finds the first occurrence of a byte sequence
+ * @param buffer - The bytes to search
+ * @param pattern - The sequence to find
+ * @returns The index of the match, or -1
+ */
+function indexOfBytes(buffer: Uint8Array, pattern: Uint8Array): number {
+  const last = buffer.length - pattern.length
+  for (let i = buffer.indexOf(pattern[0]); i !== -1 && i <= last; i = buffer.indexOf(pattern[0], i + 1)) {
+    let j = 1
+    while (j < pattern.length && buffer[i + j] === pattern[j]) j++
+    if (j === pattern.length) return i
+  }
+  return -1
+}
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(a.length + b.length)
+  bytes.set(a)
+  bytes.set(b, a.length)
+  return bytes
+}
+
+// Browsers percent-encode quotes and line breaks in names and file names
+const HEADER_ESCAPES: Record<string, string> = { '%22': '"', '%0D': '\r', '%0A': '\n' }
+
+const unescapeHeaderValue = (value: string): string =>
+  value.replace(/%22|%0D|%0A/gi, escape => HEADER_ESCAPES[escape.toUpperCase()])
+
+/**
+ * Reads a parameter such as `name="profile[0][avatar]"` from a header value
+ * @param header - The header value
+ * @param parameter - The parameter name
+ * @returns The unquoted value, or undefined if the parameter is absent
+ */
+function getHeaderParameter(header: string, parameter: string): string | undefined {
+  const pattern = new RegExp(`;\\s*${parameter}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]*))`, 'i')
+  const match = header.match(pattern)
+  if (!match) return undefined
+  return match[1] !== undefined ? unescapeHeaderValue(match[1].replace(/\\(.)/g, '$1')) : match[2]
+}
+
+/**
+ * Reads the boundary from a multipart/form-data Content-Type header
+ * @param contentType - The header value, e.g. `multipart/form-data; boundary=----abc`
+ * @returns The boundary, or null if the header is not multipart/form-data
+ */
+export function getMultipartBoundary(contentType: string): string | null {
+  if (!/^\s*multipart\/form-data\s*(;|$)/i.test(contentType)) return null
+  return getHeaderParameter(contentType, 'boundary') || null
+}
+
+/**
+ * Reads a multipart/form-data body part by part without buffering files
+ * @param stream - The request body
+ * @param options - The boundary, size limits and charset for text fields
+ * @returns Parts in body order; each file stream must be consumed or is skipped when the next part is read
+ * @throws FormDataParseError if the body is malformed or a limit is exceeded
+ */
+export async function* parseMultipart(
+  stream: ReadableStream<Uint8Array>,
+  options: MultipartOptions
+): AsyncGenerator<MultipartPart, void, undefined> {
+  const { boundary, hardened = true } = options
+  const maxKeys = options.maxKeys ?? DEFAULT_LIMITS.maxKeys
+  const limits: MultipartLimits = {
+    maxFieldSize: options.maxFieldSize ?? DEFAULT_MULTIPART_LIMITS.maxFieldSize,
+    maxFileSize: options.maxFileSize ?? DEFAULT_MULTIPART_LIMITS.maxFileSize,
+    maxTotalFileSize: options.maxTotalFileSize ?? DEFAULT_MULTIPART_LIMITS.maxTotalFileSize,
+  }
+  const decoder = new TextDecoder(options.charset ?? 'utf-8')
+  const reader = stream.getReader()
+  // Every delimiter follows a line break; one is prepended so the first needs no special case
+  const delimiter = new TextEncoder().encode(`\r\n--${boundary}`)
+  let buffer: Uint8Array = CRLF
+  let ended = false
+
+  const malformed = (field: string, message: string) => new FormDataParseError('MALFORMED_MULTIPART', field, message)
+
+  // Appends the next chunk to the buffer, returning false at the end of the stream
+  const fill = async (): Promise<boolean> => {
+    if (ended) return false
+    const { value, done } = await reader.read()
+    if (done) {
+      ended = true
+      return false
+    }
+    buffer = concatBytes(buffer, value)
+    return true
+  }
+
+  // Yields the current part's body up to the next delimiter, holding back bytes that may start one
+  async function* readBody(name: string): AsyncGenerator<Uint8Array, void, undefined> {
+    for (;;) {
+      const index = indexOfBytes(buffer, delimiter)
+      if (index !== -1) {
+        const chunk = buffer.slice(0, index)
+        buffer = buffer.subarray(index + delimiter.length)
+        if (chunk.length > 0) yield chunk
+        return
+      }
+
+      const safeLength = buffer.length - delimiter.length + 1
+      if (safeLength > 0) {
+        const chunk = buffer.slice(0, safeLength)
+        buffer = buffer.subarray(safeLength)
+        yield chunk
+      }
+      if (!(await fill())) throw malformed(name, `Body ended inside field "${name}"`)
+    }
+  }
+
+  // Reads a body while enforcing a size limit
+  async function* readLimitedBody(
+    name: string,
+    check: (chunk: Uint8Array) => [FormDataErrorCode, string] | null
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    for await (const chunk of readBody(name)) {
+      const violation = hardened ? check(chunk) : null
+      if (violation) throw new FormDataParseError(violation[0], name, violation[1])
+      yield chunk
+    }
+  }
+
+  try {
+    // Skip the preamble before the first delimiter
+    let start: number
+    while ((start = indexOfBytes(buffer, delimiter)) === -1) {
+      buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1))
+      if (!(await fill())) throw malformed('', 'Body does not contain the multipart boundary')
+    }
+    buffer = buffer.subarray(start + delimiter.length)
+
+    let partCount = 0
+    let totalFileSize = 0
+
+    for (;;) {
+      // A delimiter is followed by `--` at the end of the body, or by the part's headers
+      while (buffer.length < 2) {
+        if (!(await fill())) throw malformed('', 'Body ended without a closing boundary')
+      }
+      if (buffer[0] === 0x2d && buffer[1] === 0x2d) return
+
+      let headerEnd: number
+      while ((headerEnd = indexOfBytes(buffer, HEADER_END)) === -1) {
+        if (buffer.length > MAX_HEADER_SIZE) throw malformed('', 'Part headers are too large')
+        if (!(await fill())) throw malformed('', 'Body ended inside part headers')
+      }
+      // The first line holds optional whitespace after the delimiter
+      const [padding, ...lines] = new TextDecoder().decode(buffer.subarray(0, headerEnd)).split('\r\n')
+      buffer = buffer.subarray(headerEnd + HEADER_END.length)
+      if (padding.trim() !== '') throw malformed('', 'Unexpected data after the boundary')
+
+      const headers = new Map(
+        lines.map(line => {
+          const separator = line.indexOf(':')
+          return [line.substring(0, separator).trim().toLowerCase(), line.substring(separator + 1).trim()]
+        })
+      )
+      const disposition = headers.get('content-disposition') ?? ''
+      const name = getHeaderParameter(disposition, 'name')
+      if (!/^form-data\s*(;|$)/i.test(disposition) || name === undefined) {
+        throw malformed('', 'Part is missing a form-data Content-Disposition with a name')
+      }
+
+      partCount++
+      if (hardened && partCount > maxKeys) {
+        throw new FormDataParseError('MAX_KEYS', name, `Received more than the limit of ${maxKeys} fields`)
+      }
+
+      const filename = getHeaderParameter(disposition, 'filename')
+      if (filename === undefined) {
+        let size = 0
+        const chunks: Uint8Array[] = []
+        for await (const chunk of readLimitedBody(name, chunk => {
+          size += chunk.length
+          return size > limits.maxFieldSize
+            ? ['MAX_FIELD_SIZE', `Field "${name}" is larger than the limit of ${limits.maxFieldSize} bytes`]
+            : null
+        })) {
+          chunks.push(chunk)
+        }
+        yield { kind: 'field', name, value: decoder.decode(chunks.reduce(concatBytes, new Uint8Array(0))) }
+        continue
+      }
+
+      let fileSize = 0
+      const body = readLimitedBody(name, chunk => {
+        fileSize += chunk.length
+        totalFileSize += chunk.length
+        if (fileSize > limits.maxFileSize) {
+          return ['MAX_FILE_SIZE', `File "${name}" is larger than the limit of ${limits.maxFileSize} bytes`]
+        }
+        return totalFileSize > limits.maxTotalFileSize
+          ? ['MAX_TOTAL_FILE_SIZE', `Files are larger than the combined limit of ${limits.maxTotalFileSize} bytes`]
+          : null
+      })
+      let controller!: ReadableStreamDefaultController<Uint8Array>
+      let finished = false
+      let failure: unknown = null
+
+      // highWaterMark 0 only pulls when the consumer reads, so parts are never read ahead
+      const fileStream = new ReadableStream<Uint8Array>(
+        {
+          start: streamController => {
+            controller = streamController
+          },
+          pull: async () => {
+            try {
+              const { value, done } = await body.next()
+              if (done) {
+                finished = true
+                controller.close()
+              } else {
+                controller.enqueue(value)
+              }
+            } catch (error) {
+              failure = error
+              throw error
+            }
+          },
+        },
+        { highWaterMark: 0 }
+      )
+
+      yield {
+        kind: 'file',
+        name,
+        filename,
+        contentType: headers.get('content-type') || 'application/octet-stream',
+        stream: fileStream,
+      }
+
+      // Skip whatever the consumer did not read, still enforcing the limits
+      if (failure) throw failure
+      if (!finished) {
+        try {
+          while (!(await body.next()).done);
+        } catch (error) {
+          controller.error(error)
+          throw error
+        }
+        finished = true
+      }
+    }
+  } finally {
+    if (!ended) await reader.cancel().catch(() => {})
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Collects a file part into an in-memory File, like `request.formData()` does
+ * @param part - The file part
+ * @returns The File
+ */
+export const memoryStorage: FileStorageHandler = async part => {
+  const reader = part.stream.getReader()
+  const chunks: Uint8Array[] = []
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value)
+  }
+  return new File(chunks, part.filename, { type: part.contentType })
+}
+
+/**
+ * Parses a multipart/form-data stream into a structured object, handing each file
+ * to a storage handler as it arrives instead of buffering the whole body
+ * @param stream - The request body
+ * @param options - The boundary, storage handler, size limits and processFormData options
+ * @returns Structured form data object
+ * @throws FormDataParseError if the body is malformed or a limit is exceeded
+ */
+export async function processMultipart(
+  stream: ReadableStream<Uint8Array>,
+  options: MultipartOptions
+): Promise<ProcessedFormData> {
+  const { onFile = memoryStorage } = options
+  const entries: Array<[string, string | File]> = []
+
+  for await (const part of parseMultipart(stream, options)) {
+    const value = part.kind === 'file' ? await onFile(part) : part.value
+    if (value !== null && value !== undefined) entries.push([part.name, value])
+  }
+
+  return processFormData(entries, options)
+}
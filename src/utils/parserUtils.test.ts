@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+
+import { processFormData, ProcessedFormData } from './formUtils'
+import { createFormParser, FormParserPlugin } from './parserUtils'
+import { schema } from './schemaUtils'
+
+describe('createFormParser', () => {
+  const query = 'user.name=John&user.note=&tags.0=a&tags.1=b&items.0.qty=2'
+
+  it('should parse like processFormData with the same options', () => {
+    const parser = createFormParser({ pathSyntax: 'dot', emptyStrings: 'null' })
+
+    expect(parser.parse(query)).toEqual(processFormData(query, { pathSyntax: 'dot', emptyStrings: 'null' }))
+    expect(parser.parse(query)).toEqual({ user: { name: 'John', note: null }, tags: ['a', 'b'], items: [{ qty: '2' }] })
+    expect(createFormParser().parse(query)).toEqual(processFormData(query))
+  })
+
+  it('should apply its limits and report diagnostics', () => {
+    const parser = createFormParser({ maxDepth: 1, repeatedKeys: 'last' })
+
+    expect(() => parser.parse('a[b][c]=1')).toThrow(expect.objectContaining({ code: 'MAX_DEPTH' }))
+    expect(parser.parseWithDiagnostics('a=1&a=2')).toEqual({
+      result: { a: '2' },
+      diagnostics: [expect.objectContaining({ code: 'DUPLICATE_KEY', field: 'a' })],
+    })
+  })
+
+  it('should stringify in its own syntax and key case', () => {
+    const data = { firstName: 'John', tags: ['a', 'b'], address: { zipCode: '0150' } }
+    const parser = createFormParser({
+      pathSyntax: 'dot',
+      keyTransform: 'camel',
+      fieldCase: 'snake',
+      indexStyle: 'brackets',
+    })
+    const stringified = parser.stringify(data)
+
+    expect(stringified).toBe('first_name=John&tags.=a&tags.=b&address.zip_code=0150')
+    expect(parser.parse(stringified)).toEqual(data)
+  })
+
+  it('should validate against a schema with its options', () => {
+    const parser = createFormParser({ keyTransform: 'camel' })
+    const contactSchema = schema.object({ fullName: schema.string(), age: schema.number().optional() })
+
+    expect(parser.validate(contactSchema, 'full_name=John&age=30')).toEqual({
+      success: true,
+      data: { fullName: 'John', age: 30 },
+    })
+    expect(parser.validate(contactSchema, 'full_name=&age=x')).toEqual({
+      success: false,
+      errors: [
+        expect.objectContaining({ field: 'full_name', code: 'required' }),
+        expect.objectContaining({ field: 'age', code: 'invalid_type' }),
+      ],
+    })
+  })
+
+  it('should coerce values by type suffix', () => {
+    const parser = createFormParser({ coerce: true })
+
+    expect(parser.parse('qty:number=3&items[0][gift]:boolean=on&note:number=&time:12=x')).toEqual({
+      qty: 3,
+      items: [{ gift: true }],
+      note: null,
+      'time:12': 'x',
+    })
+    expect(createFormParser().parse('qty:number=3')).toEqual({ 'qty:number': '3' })
+  })
+})
+
+describe('parser plugins', () => {
+  // Drops fields named with a leading underscore, such as CSRF tokens
+  const dropPrivate: FormParserPlugin = {
+    name: 'drop-private',
+    beforeParse: field => (field.startsWith('_') ? null : field),
+  }
+
+  // Upper-cases the values of fields named `code`
+  const upperCaseCodes: FormParserPlugin = {
+    name: 'codes',
+    transformValue: (value, { path }) =>
+      path[path.length - 1] === 'code' && typeof value === 'string' ? value.toUpperCase() : value,
+  }
+
+  // Adds the number of top-level fields
+  const countFields: FormParserPlugin = {
+    name: 'count',
+    afterNormalize: result => ({ ...result, fieldCount: String(Object.keys(result).length) }),
+  }
+
+  it('should call the hooks before parsing, per leaf and after normalizing', () => {
+    const parser = createFormParser({ plugins: [dropPrivate, upperCaseCodes, countFields] })
+
+    expect(parser.parse('_csrf=abc&code=x1&items[0][code]=y2&items[1][name]=z')).toEqual({
+      code: 'X1',
+      items: [{ code: 'Y2' }, { name: 'z' }],
+      fieldCount: '2',
+    })
+  })
+
+  it('should pass the output of each plugin to the next', () => {
+    const prefix = (name: string, text: string): FormParserPlugin => ({
+      name,
+      beforeParse: field => `${text}${field}`,
+      transformValue: value => `${value}${text}`,
+    })
+
+    expect(createFormParser({ plugins: [prefix('a', 'a'), prefix('b', 'b')] }).parse('x=1')).toEqual({ bax: '1ab' })
+  })
+
+  it('should apply the empty string policy to transformed values', () => {
+    const blankToEmpty: FormParserPlugin = { name: 'blank', transformValue: value => (value === 'N/A' ? '' : value) }
+
+    expect(createFormParser({ plugins: [blankToEmpty] }).parse('a[b]=N/A&a[c]=1')).toEqual({ a: { c: '1' } })
+  })
+
+  it('should add plugins to a new parser, replacing plugins with the same name', () => {
+    const parser = createFormParser({ plugins: [countFields] })
+    const extended = parser.use(dropPrivate, {
+      name: 'count',
+      afterNormalize: result => ({ ...result, counted: 'no' }),
+    })
+
+    expect(parser.parse('_a=1&b=2')).toEqual({ _a: '1', b: '2', fieldCount: '2' })
+    expect(extended.parse('_a=1&b=2')).toEqual({ b: '2', counted: 'no' })
+    expect(extended.options.plugins?.map(({ name }) => name)).toEqual(['drop-private', 'count'])
+  })
+
+  it('should keep calls independent when a hook parses with the same parser', () => {
+    const nested: FormParserPlugin = {
+      name: 'nested',
+      transformValue: (value, { path }) =>
+        path[0] === 'json' && typeof value === 'string' ? parser.parse(value) : value,
+    }
+    const parser: ReturnType<typeof createFormParser> = createFormParser({ plugins: [nested] })
+
+    expect(parser.parse('a=1&a=2&json=b%3D1%26b%3D2')).toEqual({
+      a: ['1', '2'],
+      json: { b: ['1', '2'] } as unknown as ProcessedFormData[string],
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import { FlattenOptions } from './flattenUtils'
+import {
+  compileFormDataParser,
+  FormDataDiagnostic,
+  FormDataHooks,
+  FormDataInput,
+  ProcessedFormData,
+  ProcessFormDataOptions,
+  toFieldName,
+} from './formUtils'
+import { toQueryString } from './queryUtils'
+import { checkSchema, Schema, SchemaResult } from './schemaUtils'
+import { applyTypeHint, parseTypeHint } from './typedFormUtils'
+
+/**
+ * Type definitions for reusable parsers
+ */
+export interface FormParserPlugin extends FormDataHooks {
+  // Identifies the plugin; adding a plugin with the same name replaces the earlier one
+  name: string
+}
+
+export interface FormParserOptions
+  extends ProcessFormDataOptions, Omit<FlattenOptions, 'fieldName' | 'keyTransform' | 'aliases'> {
+  // Convert values by a type suffix in the field name, e.g. `qty:number` (default: false)
+  coerce?: boolean
+  // Plugins, whose hooks run in this order
+  plugins?: FormParserPlugin[]
+}
+
+export interface FormParser {
+  // The options the parser was created with
+  readonly options: FormParserOptions
+  // Converts submitted data into a structured object
+  parse(data: FormDataInput): ProcessedFormData
+  // Converts submitted data along with the problems that were resolved by a policy
+  parseWithDiagnostics(data: FormDataInput): { result: ProcessedFormData; diagnostics: FormDataDiagnostic[] }
+  // Converts a structured object into a urlencoded string that parse turns back into the same object
+  stringify(data: Record<string, unknown>): string
+  // Parses submitted data and validates it, naming errors after the submitted fields
+  validate<T>(objectSchema: Schema<T>, data: FormDataInput): SchemaResult<T>
+  // Creates a parser with the same options and more plugins
+  use(...plugins: FormParserPlugin[]): FormParser
+}
+
+/**
+ * Converts values named with a type suffix, e.g. `qty:number` or `agree:boolean`, and
+ * removes the suffix from the name, as processForm does for detached data
+ */
+export const typeHintPlugin: FormParserPlugin = {
+  name: 'type-hints',
+  beforeParse: field => parseTypeHint(field).name,
+  transformValue: (value, { submitted }) => {
+    const { hint } = parseTypeHint(submitted)
+    return hint ? applyTypeHint(value, hint) : value
+  },
+}
+
+/**
+ * Combines the hooks of several plugins, each receiving the output of the one before
+ * @param plugins - The plugins in order
+ * @returns The combined hooks, leaving out hooks no plugin has
+ */
+function composeHooks(plugins: FormParserPlugin[]): FormDataHooks {
+  const beforeParse = plugins.flatMap(plugin => (plugin.beforeParse ? [plugin.beforeParse] : []))
+  const transformValue = plugins.flatMap(plugin => (plugin.transformValue ? [plugin.transformValue] : []))
+  const afterNormalize = plugins.flatMap(plugin => (plugin.afterNormalize ? [plugin.afterNormalize] : []))
+
+  return {
+    // A plugin that drops the field ends the chain
+    beforeParse:
+      beforeParse.length > 0
+        ? field => beforeParse.reduce<string | null>((name, hook) => (name === null ? null : hook(name)), field)
+        : undefined,
+    transformValue:
+      transformValue.length > 0
+        ? (value, context) => transformValue.reduce((current, hook) => hook(current, context), value)
+        : undefined,
+    afterNormalize:
+      afterNormalize.length > 0 ? result => afterNormalize.reduce((current, hook) => hook(current), result) : undefined,
+  }
+}
+
+// Helper function to add plugins, replacing earlier ones with the same name
+const addPlugins = (plugins: FormParserPlugin[], added: FormParserPlugin[]): FormParserPlugin[] =>
+  added.reduce((list, plugin) => [...list.filter(({ name }) => name !== plugin.name), plugin], plugins)
+
+/**
+ * Creates a parser that compiles its options once and carries them to every call, so
+ * the same settings parse submissions, build query strings and validate against schemas.
+ * processFormData remains the zero-config default; `createFormParser()` behaves the same.
+ * @param options - processFormData options, flattening options for stringify, coercion and plugins
+ * @returns The parser
+ */
+export function createFormParser(options: FormParserOptions = {}): FormParser {
+  const { coerce = false, plugins = [], indexStyle, skipNulls, ...processOptions } = options
+  const processor = compileFormDataParser(processOptions, composeHooks(coerce ? [typeHintPlugin, ...plugins] : plugins))
+
+  // Names are written in the parser's syntax and the submitted case so stringify and parse round-trip
+  const pathSyntax = processOptions.pathSyntax ?? 'bracket'
+  const flattenOptions: FlattenOptions = {
+    indexStyle,
+    skipNulls,
+    keyTransform: options.fieldCase,
+    aliases: options.aliases,
+    fieldName: segments => toFieldName(segments, pathSyntax),
+  }
+
+  return {
+    options,
+    parse: data => processor.process(data),
+    parseWithDiagnostics: data => processor.processWithDiagnostics(data),
+    stringify: data => toQueryString(data, flattenOptions),
+    validate: (objectSchema, data) => {
+      const { result, sourceMap } = processor.processWithSourceMap(data)
+      return checkSchema(objectSchema, result, sourceMap)
+    },
+    use: (...added) => createFormParser({ ...options, plugins: addPlugins(plugins, added) }),
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+
+import { processFormData } from './formUtils'
+import { parseQueryString, toQueryString } from './queryUtils'
+
+describe('parseQueryString', () => {
+  it('should split pairs and strip a leading question mark', () => {
+    expect(parseQueryString('?name=John&age=30')).toEqual([
+      ['name', 'John'],
+      ['age', '30'],
+    ])
+  })
+
+  it('should decode plus signs and percent escapes', () => {
+    expect(parseQueryString('name=John+Doe&city=S%C3%A3o%20Paulo&profile%5B0%5D%5Bname%5D=Jane')).toEqual([
+      ['name', 'John Doe'],
+      ['city', 'São Paulo'],
+      ['profile[0][name]', 'Jane'],
+    ])
+  })
+
+  it('should keep keys without a value and skip empty pairs', () => {
+    expect(parseQueryString('subscribe&&note=&tags[]=a')).toEqual([
+      ['subscribe', ''],
+      ['note', ''],
+      ['tags[]', 'a'],
+    ])
+  })
+
+  it('should decode with a configurable charset', () => {
+    expect(parseQueryString('city=S%E3o+Paulo', { charset: 'iso-8859-1' })).toEqual([['city', 'São Paulo']])
+  })
+
+  it('should not throw on malformed escapes', () => {
+    expect(parseQueryString('a=100%&b=%E0%A4%A')).toEqual([
+      ['a', '100%'],
+      ['b', '�%A'],
+    ])
+  })
+
+  it('should decode escapes the same way with and without a byte order mark or surrogates', () => {
+    expect(parseQueryString('a=%EF%BB%BFx&b=%F0%9F%98%80+%E2%9C%93&c=%ED%A0%80')).toEqual([
+      ['a', 'x'],
+      ['b', '😀 ✓'],
+      ['c', '���'],
+    ])
+  })
+
+  it('should reject unknown charsets', () => {
+    expect(() => parseQueryString('a=1', { charset: 'not-a-charset' })).toThrow(RangeError)
+  })
+})
+
+describe('toQueryString', () => {
+  it('should encode nested objects with bracket notation', () => {
+    const query = toQueryString({
+      name: 'John Doe',
+      profile: [{ name: 'Jane', tags: ['a&b'] }],
+    })
+
+    expect(query).toBe('name=John+Doe&profile%5B0%5D%5Bname%5D=Jane&profile%5B0%5D%5Btags%5D%5B0%5D=a%26b')
+  })
+
+  it('should support index styles and skip File values', () => {
+    const query = toQueryString(
+      { tags: ['a', 'b'], avatar: new File(['x'], 'avatar.png'), note: null },
+      { indexStyle: 'brackets', skipNulls: true }
+    )
+
+    expect(query).toBe('tags%5B%5D=a&tags%5B%5D=b')
+  })
+
+  it('should round-trip through processFormData', () => {
+    const data = {
+      contactMethod: 'email',
+      profile: [
+        { name: 'John Doe', email: 'john+test@example.com' },
+        { name: 'Jane Smith', tags: ['ui/ux', '100%'] },
+      ],
+      user: { address: { city: 'São Paulo' } },
+    }
+
+    expect(processFormData(toQueryString(data))).toEqual(data)
+    expect(processFormData(new URLSearchParams(toQueryString(data)))).toEqual(data)
+  })
+})
@@ -0,0 +1,94 @@
+import { flattenToEntries, FlattenOptions } from './flattenUtils'
+
+/**
+ * Type definitions for query strings and urlencoded bodies
+ */
+export interface QueryStringOptions {
+  // Character set the percent-encoded bytes are decoded with, e.g. 'iso-8859-1' (default: 'utf-8')
+  charset?: string
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * Decodes one urlencoded component, treating `+` as a space
+ * @param component - The raw key or value
+ * @param decoder - Decoder for the configured charset
+ * @returns The decoded text; malformed sequences become U+FFFD instead of throwing
+ */
+function decodeComponent(component: string, decoder: TextDecoder): string {
+  // Plain ASCII without escapes needs no byte-level decoding
+  if (!/[%+]/.test(component)) return component
+
+  // Well-formed UTF-8 decodes natively; malformed escapes, surrogates and a leading byte order
+  // mark (which TextDecoder removes) take the byte-level path
+  if (decoder.encoding === 'utf-8' && !/[\uD800-\uDFFF]/.test(component)) {
+    try {
+      const decoded = decodeURIComponent(component.replace(/\+/g, ' '))
+      if (!decoded.startsWith('\uFEFF')) return decoded
+    } catch {
+      // Fall through to replace the malformed sequences
+    }
+  }
+
+  const bytes: number[] = []
+
+  for (let i = 0; i < component.length; i++) {
+    const char = component[i]
+    const hex = component.substring(i + 1, i + 3)
+
+    if (char === '+') {
+      bytes.push(0x20)
+    } else if (char === '%' && /^[0-9a-fA-F]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else {
+      // Literal characters are taken as UTF-8, whatever the charset of the escapes
+      const codePoint = component.codePointAt(i) as number
+      const literal = String.fromCodePoint(codePoint)
+      bytes.push(...encoder.encode(literal))
+      i += literal.length - 1
+    }
+  }
+
+  return decoder.decode(new Uint8Array(bytes))
+}
+
+/**
+ * Parses a query string or `application/x-www-form-urlencoded` body into entries
+ * @param query - The raw string, with or without a leading `?`
+ * @param options - Charset used for percent-decoding
+ * @returns The `[name, value]` entries in order
+ * @throws RangeError if the charset is not supported
+ */
+export function parseQueryString(query: string, options: QueryStringOptions = {}): Array<[string, string]> {
+  const decoder = new TextDecoder(options.charset ?? 'utf-8')
+  const source = query.startsWith('?') ? query.substring(1) : query
+
+  return source
+    .split('&')
+    .filter(pair => pair !== '')
+    .map(pair => {
+      const separator = pair.indexOf('=')
+      const key = separator === -1 ? pair : pair.substring(0, separator)
+      const value = separator === -1 ? '' : pair.substring(separator + 1)
+      return [decodeComponent(key, decoder), decodeComponent(value, decoder)]
+    })
+}
+
+// Percent-encodes a component the way HTML forms do, with spaces as `+`
+const encodeComponent = (component: string): string => encodeURIComponent(component).replace(/%20/g, '+')
+
+/**
+ * Converts a nested object into an `application/x-www-form-urlencoded` string
+ * using the same bracket notation understood by `processFormData`
+ * @param data - The nested object to encode
+ * @param options - Index style and null handling
+ * @returns The urlencoded string, without a leading `?`; File values cannot be urlencoded and are left out
+ */
+export function toQueryString(data: Record<string, unknown>, options: FlattenOptions = {}): string {
+  return flattenToEntries(data, options)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([key, value]) => `${encodeComponent(key)}=${encodeComponent(value)}`)
+    .join('&')
+}
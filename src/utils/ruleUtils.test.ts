@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+
+import { FormDataParseError, processFormData, ProcessedFormData } from './formUtils'
+import { applyFormRules } from './ruleUtils'
+
+// Helper function to evaluate an expression against data as a computed field
+const evaluate = (source: string, data: ProcessedFormData = {}) =>
+  applyFormRules(data, { computed: { result: source } }).result
+
+describe('applyFormRules', () => {
+  it('should keep subtrees only while their condition holds', () => {
+    const rules = { include: { address: "contactMethod == 'mail'" } }
+
+    expect(applyFormRules({ contactMethod: 'mail', address: { city: 'Oslo' } }, rules)).toEqual({
+      contactMethod: 'mail',
+      address: { city: 'Oslo' },
+    })
+    expect(applyFormRules({ contactMethod: 'email', address: { city: 'Oslo' } }, rules)).toEqual({
+      contactMethod: 'email',
+    })
+  })
+
+  it('should exclude fields with declarative conditions', () => {
+    const data = { newsletter: '', frequency: 'weekly', role: 'guest', company: 'ACME', vat: '123' }
+
+    expect(
+      applyFormRules(data, {
+        exclude: {
+          frequency: { not: { field: 'newsletter' } },
+          company: { field: 'role', in: ['guest', 'student'] },
+          vat: {
+            all: [
+              { field: 'company', present: false },
+              { field: 'role', notEquals: 'admin' },
+            ],
+          },
+        },
+      })
+    ).toEqual({ newsletter: '', role: 'guest' })
+  })
+
+  it('should evaluate conditions for each array item', () => {
+    const data = processFormData(
+      new URLSearchParams('items[0][type]=gift&items[0][message]=Hi&items[1][type]=plain&items[1][message]=Ignored')
+    )
+
+    expect(applyFormRules(data, { include: { 'items[][message]': "items[][type] == 'gift'" } })).toEqual({
+      items: [{ type: 'gift', message: 'Hi' }, { type: 'plain' }],
+    })
+    expect(applyFormRules(data, { exclude: { 'items[]': ({ indices }) => indices[0] === 0 } })).toEqual({
+      items: [{ type: 'plain', message: 'Ignored' }],
+    })
+  })
+
+  it('should compute fields per array item, in declaration order', () => {
+    const data = processFormData(
+      new URLSearchParams('items[0][price]=2.5&items[0][quantity]=4&items[1][price]=3&items[1][quantity]=&discount=1')
+    )
+
+    expect(
+      applyFormRules(data, {
+        computed: {
+          'items[][total]': 'items[][price] * items[][quantity]',
+          subtotal: 'sum(items[][total])',
+          total: 'round(subtotal - discount, 2)',
+          summary: ({ get }) => `${(get('items[]') as unknown[]).length} items`,
+        },
+      })
+    ).toEqual({
+      items: [
+        { price: '2.5', quantity: '4', total: 10 },
+        { price: '3', total: 0 },
+      ],
+      discount: '1',
+      subtotal: 10,
+      total: 9,
+      summary: '2 items',
+    })
+  })
+
+  it('should apply defaults to missing fields only', () => {
+    const data: ProcessedFormData = { name: '', items: [{ quantity: '2' }, {}] }
+    const result = applyFormRules(data, {
+      defaults: { name: 'Anonymous', 'settings[theme]': 'light', 'items[][quantity]': '1', tags: [] },
+    })
+
+    expect(result).toEqual({
+      name: '',
+      settings: { theme: 'light' },
+      items: [{ quantity: '2' }, { quantity: '1' }],
+      tags: [],
+    })
+    expect(data).toEqual({ name: '', items: [{ quantity: '2' }, {}] })
+  })
+
+  it('should reject malformed rules', () => {
+    expect(() => applyFormRules({}, { computed: { total: 'a +' } })).toThrow(FormDataParseError)
+    expect(() => applyFormRules({}, { computed: { total: 'eval(a)' } })).toThrow('Unknown function "eval"')
+    expect(() => applyFormRules({}, { defaults: { 'a[__proto__][b]': 1 } })).toThrow('forbidden path segment')
+    expect(() => applyFormRules({ a: 'text' }, { computed: { 'a[b]': '1' } })).toThrow(
+      expect.objectContaining({ code: 'INVALID_RULE', field: 'a[b]' })
+    )
+  })
+})
+
+describe('expressions', () => {
+  it('should follow operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7)
+    expect(evaluate('(1 + 2) * 3')).toBe(9)
+    expect(evaluate('-2 + 10 % 4')).toBe(0)
+    expect(evaluate('1 < 2 && 2 < 1 || !false')).toBe(true)
+    expect(evaluate("a > 1 ? 'big' : 'small'", { a: '5' })).toBe('big')
+  })
+
+  it('should read a dash between names as subtraction', () => {
+    expect(evaluate('a-b', { a: '5', b: '2' })).toBe(3)
+    expect(evaluate('qty-1', { qty: '4' })).toBe(3)
+    expect(evaluate('user[first-name]', { user: { 'first-name': 'Jane' } })).toBe('Jane')
+  })
+
+  it('should compare submitted strings with numbers', () => {
+    expect(evaluate('a == 2', { a: '2.0' })).toBe(true)
+    expect(evaluate('a == 0', { a: '' })).toBe(false)
+    expect(evaluate('missing == null')).toBe(true)
+    expect(evaluate('a * 2 + b', { a: 'x', b: '1' })).toBeNull()
+  })
+
+  it('should provide helper functions', () => {
+    const data = { items: [{ price: '1.5' }, { price: '' }, { price: '3' }], first: '', last: 'Doe' }
+
+    expect(evaluate('count(items[][price])', data)).toBe(2)
+    expect(evaluate('max(items[][price])', data)).toBe(3)
+    expect(evaluate("concat(coalesce(first, 'Jane'), ' ', last)", data)).toBe('Jane Doe')
+    expect(evaluate('round(10 / 3, 2)')).toBe(3.33)
+  })
+})
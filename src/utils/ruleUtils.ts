@@ -0,0 +1,475 @@
+import {
+  cloneContainers,
+  DANGEROUS_KEYS,
+  FormDataParseError,
+  isPlainContainer,
+  parseFieldName,
+  PathSegment,
+  ProcessedFormData,
+} from './formUtils'
+
+/**
+ * Type definitions for conditional, computed and default fields
+ */
+export interface RuleContext {
+  // The whole result as it stands when the rule runs
+  data: ProcessedFormData
+  // Array indices matched by the `[]` wildcards of the rule's field name
+  indices: number[]
+  // Reads a field by name; `[]` wildcards take the rule's indices in order, then expand to arrays
+  get: (field: string) => unknown
+}
+
+/**
+ * When a rule applies:
+ * - an expression, e.g. `"contactMethod == 'mail'"`
+ * - a function of the rule context
+ * - `{ field, equals | notEquals | in | present }`, or just `{ field }` for a truthy value
+ * - `{ all: [...] }`, `{ any: [...] }` or `{ not: ... }`
+ */
+export type RuleCondition =
+  | string
+  | ((context: RuleContext) => unknown)
+  | { field: string; equals?: unknown; notEquals?: unknown; in?: unknown[]; present?: boolean }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+
+// An expression such as `'items[][price] * items[][quantity]'`, or a function of the rule context
+export type RuleComputation = string | ((context: RuleContext) => unknown)
+
+/**
+ * Rules by field name in bracket notation, where `[]` matches every array item. They run in
+ * this order, each section in declaration order: defaults, include, exclude, computed.
+ */
+export interface FormRules {
+  // Values for fields that were not submitted
+  defaults?: Record<string, unknown>
+  // Fields and subtrees kept only while their condition holds
+  include?: Record<string, RuleCondition>
+  // Fields and subtrees removed while their condition holds
+  exclude?: Record<string, RuleCondition>
+  // Fields set to the result of an expression or function; later ones see earlier results
+  computed?: Record<string, RuleComputation>
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+const hasOwn = (target: object, key: PropertyKey): boolean => Object.prototype.hasOwnProperty.call(target, key)
+
+/**
+ * Splits a field name in bracket notation into segments
+ * @param field - The field name, e.g. `profile[][address]`
+ * @returns The segments, with '' for each wildcard, e.g. `['profile', '', 'address']`
+ * @throws FormDataParseError with code `INVALID_RULE` for malformed names and forbidden segments
+ */
+function toSegments(field: string): string[] {
+  const parsed = parseFieldName(field)
+  const segments = parsed ? [parsed.baseName, ...parsed.path] : []
+  // parseFieldName skips text between brackets, which rules reject
+  const rebuilt = segments.map((segment, index) => (index === 0 ? segment : `[${segment}]`)).join('')
+
+  if (!segments[0] || rebuilt !== field) {
+    throw new FormDataParseError('INVALID_RULE', field, `"${field}" is not a field name in bracket notation`)
+  }
+  if (segments.some(segment => DANGEROUS_KEYS.has(segment))) {
+    throw new FormDataParseError('INVALID_RULE', field, `"${field}" contains a forbidden path segment`)
+  }
+  return segments
+}
+
+const readChild = (value: unknown, segment: string): unknown =>
+  isPlainContainer(value) && hasOwn(value, segment) ? (value as Record<string, unknown>)[segment] : undefined
+
+/**
+ * Finds the paths that a field name matches, expanding wildcards over array items
+ * @param data - The data to search
+ * @param segments - The field name's segments
+ * @param indices - Indices for the leading wildcards
+ * @returns The concrete paths and the indices their wildcards matched; paths may end in missing values
+ */
+function expandPaths(
+  data: unknown,
+  segments: string[],
+  indices: number[] = []
+): Array<{ path: PathSegment[]; indices: number[] }> {
+  let matches: Array<{ path: PathSegment[]; indices: number[]; value: unknown }> = [
+    { path: [], indices: [], value: data },
+  ]
+
+  segments.forEach(segment => {
+    matches = matches.flatMap(({ path, indices: matched, value }) => {
+      if (segment !== '') return [{ path: [...path, segment], indices: matched, value: readChild(value, segment) }]
+      if (!Array.isArray(value)) return []
+
+      const bound = indices[matched.length]
+      const items = bound === undefined ? value.map((_, index) => index) : bound < value.length ? [bound] : []
+      return items.map(index => ({ path: [...path, index], indices: [...matched, index], value: value[index] }))
+    })
+  })
+
+  return matches.map(({ path, indices: matched }) => ({ path, indices: matched }))
+}
+
+const getPath = (data: unknown, path: PathSegment[]): unknown =>
+  path.reduce<unknown>((value, segment) => readChild(value, String(segment)), data)
+
+/**
+ * Sets a value, creating objects for missing parents
+ * @param data - The root object
+ * @param path - Where to set the value
+ * @param value - The value
+ * @returns false if a parent is a value rather than a container
+ */
+function setPath(data: Record<string, unknown>, path: PathSegment[], value: unknown): boolean {
+  let parent: Container = data
+  for (const segment of path.slice(0, -1)) {
+    let child = readChild(parent, String(segment))
+    if (child === undefined || child === null) {
+      child = {}
+      ;(parent as Record<string, unknown>)[segment] = child
+    }
+    if (!isPlainContainer(child)) return false
+    parent = child
+  }
+  ;(parent as Record<string, unknown>)[path[path.length - 1]] = value
+  return true
+}
+
+/**
+ * Converts a value for arithmetic; blank values count as 0
+ * @param value - A submitted value or an expression result
+ * @returns The number, or NaN if the value is not numeric
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value === undefined || value === null) return 0
+  if (typeof value === 'string') return value.trim() === '' ? 0 : Number(value)
+  return NaN
+}
+
+const isTruthy = (value: unknown): boolean => (Array.isArray(value) ? value.length > 0 : Boolean(value))
+
+// Form values are strings, so `'2' == 2` and `'2.0' == 2` hold, while other values compare strictly
+function looseEquals(a: unknown, b: unknown): boolean {
+  if ((typeof a === 'number' || typeof b === 'number') && a !== null && b !== null) {
+    return a !== '' && b !== '' && toNumber(a) === toNumber(b)
+  }
+  return a === b || (a === undefined && b === null) || (a === null && b === undefined)
+}
+
+// Arithmetic on non-numeric input gives NaN through the whole expression, and the result becomes null
+const toResult = (value: unknown): unknown => (typeof value === 'number' && !Number.isFinite(value) ? null : value)
+
+/**
+ * Type definitions for compiled expressions
+ */
+type Expression = (context: RuleContext) => unknown
+
+const flattenArgs = (values: unknown[]): unknown[] => values.flat(Infinity)
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  sum: (...args) => flattenArgs(args).reduce<number>((total, value) => total + toNumber(value), 0),
+  min: (...args) => {
+    const numbers = flattenArgs(args).map(toNumber)
+    return numbers.length === 0 ? null : Math.min(...numbers)
+  },
+  max: (...args) => {
+    const numbers = flattenArgs(args).map(toNumber)
+    return numbers.length === 0 ? null : Math.max(...numbers)
+  },
+  count: (...args) => flattenArgs(args).filter(value => value !== undefined && value !== null && value !== '').length,
+  round: (value, digits = 0) => {
+    const factor = 10 ** toNumber(digits)
+    return Math.round(toNumber(value) * factor) / factor
+  },
+  concat: (...args) =>
+    flattenArgs(args)
+      .filter(value => value !== undefined && value !== null)
+      .join(''),
+  coalesce: (...args) => args.find(value => value !== undefined && value !== null && value !== ''),
+}
+
+const BINARY_OPERATORS: Record<string, (a: unknown, b: unknown) => unknown> = {
+  '+': (a, b) => toNumber(a) + toNumber(b),
+  '-': (a, b) => toNumber(a) - toNumber(b),
+  '*': (a, b) => toNumber(a) * toNumber(b),
+  '/': (a, b) => toNumber(a) / toNumber(b),
+  '%': (a, b) => toNumber(a) % toNumber(b),
+  '==': (a, b) => looseEquals(a, b),
+  '!=': (a, b) => !looseEquals(a, b),
+  '<': (a, b) => toNumber(a) < toNumber(b),
+  '>': (a, b) => toNumber(a) > toNumber(b),
+  '<=': (a, b) => toNumber(a) <= toNumber(b),
+  '>=': (a, b) => toNumber(a) >= toNumber(b),
+}
+
+// Binary operators from the loosest to the tightest binding
+const PRECEDENCE = [['||'], ['&&'], ['==', '!='], ['<', '>', '<=', '>='], ['+', '-'], ['*', '/', '%']]
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+(?:\.\d+)?)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([A-Za-z_$][\w$]*(?:\[[^\]]*\])*)|(\|\||&&|==|!=|<=|>=|[-+*/%<>!?:(),]))/y
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string }
+
+/**
+ * Splits an expression into tokens
+ * @param source - The expression
+ * @param field - The rule's field name, for errors
+ * @returns The tokens
+ * @throws FormDataParseError with code `INVALID_RULE` at the first unexpected character
+ */
+function tokenize(source: string, field: string): Token[] {
+  const tokens: Token[] = []
+  TOKEN_PATTERN.lastIndex = 0
+
+  while (source.substring(TOKEN_PATTERN.lastIndex).trim() !== '') {
+    const start = TOKEN_PATTERN.lastIndex
+    const match = TOKEN_PATTERN.exec(source)
+    if (!match) {
+      throw new FormDataParseError(
+        'INVALID_RULE',
+        field,
+        `Unexpected "${source.substring(start).trim()}" in "${source}"`
+      )
+    }
+    const [, number, single, double, name, operator] = match
+    if (number !== undefined) tokens.push({ type: 'number', value: Number(number) })
+    else if (single !== undefined || double !== undefined) {
+      tokens.push({ type: 'string', value: (single ?? double).replace(/\\(.)/g, '$1') })
+    } else if (name !== undefined) tokens.push({ type: 'name', value: name })
+    else tokens.push({ type: 'operator', value: operator })
+  }
+  return tokens
+}
+
+/**
+ * Compiles an expression into a function of the rule context. Expressions read fields by
+ * name and support arithmetic, comparisons, `&&`, `||`, `!`, `? :` and the functions
+ * sum, min, max, count, round, concat and coalesce. They are never evaluated as JavaScript.
+ * @param source - The expression, e.g. `'round(items[][price] * 1.2, 2)'`
+ * @param field - The rule's field name, for errors
+ * @returns The compiled expression
+ * @throws FormDataParseError with code `INVALID_RULE` if the expression is malformed
+ */
+export function compileExpression(source: string, field = ''): Expression {
+  const tokens = tokenize(source, field)
+  let position = 0
+
+  const fail = (message: string): never => {
+    throw new FormDataParseError('INVALID_RULE', field, `${message} in "${source}"`)
+  }
+  const peekOperator = (...operators: string[]): string | undefined => {
+    const token = tokens[position]
+    return token?.type === 'operator' && operators.includes(token.value) ? token.value : undefined
+  }
+  const expect = (operator: string): void => {
+    if (!peekOperator(operator)) fail(`Expected "${operator}"`)
+    position++
+  }
+
+  const parseTernary = (): Expression => {
+    const condition = parseBinary(0)
+    if (!peekOperator('?')) return condition
+    position++
+    const whenTrue = parseTernary()
+    expect(':')
+    const whenFalse = parseTernary()
+    return context => (isTruthy(condition(context)) ? whenTrue(context) : whenFalse(context))
+  }
+
+  const parseBinary = (level: number): Expression => {
+    if (level === PRECEDENCE.length) return parseUnary()
+    let left = parseBinary(level + 1)
+    for (let operator = peekOperator(...PRECEDENCE[level]); operator; operator = peekOperator(...PRECEDENCE[level])) {
+      position++
+      const right = parseBinary(level + 1)
+      const previous = left
+      if (operator === '&&') left = context => isTruthy(previous(context)) && isTruthy(right(context))
+      else if (operator === '||') left = context => isTruthy(previous(context)) || isTruthy(right(context))
+      else {
+        const apply = BINARY_OPERATORS[operator]
+        left = context => apply(previous(context), right(context))
+      }
+    }
+    return left
+  }
+
+  const parseUnary = (): Expression => {
+    const operator = peekOperator('!', '-')
+    if (!operator) return parsePrimary()
+    position++
+    const operand = parseUnary()
+    return operator === '!' ? context => !isTruthy(operand(context)) : context => -toNumber(operand(context))
+  }
+
+  const parsePrimary = (): Expression => {
+    const token = tokens[position++]
+    if (!token) return fail('Unexpected end')
+    if (token.type === 'number' || token.type === 'string') return () => token.value
+    if (token.type === 'operator') {
+      if (token.value !== '(') return fail(`Unexpected "${token.value}"`)
+      const inner = parseTernary()
+      expect(')')
+      return inner
+    }
+
+    const literals: Record<string, unknown> = { true: true, false: false, null: null }
+    if (hasOwn(literals, token.value)) return () => literals[token.value]
+
+    if (peekOperator('(')) {
+      const fn = hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : fail(`Unknown function "${token.value}"`)
+      position++
+      const args: Expression[] = []
+      while (!peekOperator(')')) {
+        if (args.length > 0) expect(',')
+        args.push(parseTernary())
+      }
+      position++
+      return context => fn(...args.map(arg => arg(context)))
+    }
+
+    const name = token.value
+    toSegments(name)
+    return context => context.get(name)
+  }
+
+  const expression = parseTernary()
+  if (position < tokens.length) fail(`Unexpected "${(tokens[position] as { value: unknown }).value}"`)
+  return context => toResult(expression(context))
+}
+
+// How many characters of expression source the cache holds, far more than the rules of any one app
+const EXPRESSION_CACHE_CHARS = 1_000_000
+
+// Compiled expressions by source, since the same rules run on every submit;
+// cleared once the sources add up to EXPRESSION_CACHE_CHARS, so generated rules cannot grow it without bound
+const expressionCache = new Map<string, Expression>()
+let cachedChars = 0
+
+const getExpression = (source: string, field: string): Expression => {
+  let expression = expressionCache.get(source)
+  if (!expression) {
+    expression = compileExpression(source, field)
+    if (cachedChars + source.length > EXPRESSION_CACHE_CHARS) {
+      expressionCache.clear()
+      cachedChars = 0
+    }
+    expressionCache.set(source, expression)
+    cachedChars += source.length
+  }
+  return expression
+}
+
+/**
+ * Evaluates a condition
+ * @param condition - The condition
+ * @param context - The rule context
+ * @param field - The rule's field name, for errors
+ * @returns Whether the condition holds
+ */
+function evaluateCondition(condition: RuleCondition, context: RuleContext, field: string): boolean {
+  if (typeof condition === 'string') return isTruthy(getExpression(condition, field)(context))
+  if (typeof condition === 'function') return isTruthy(condition(context))
+  if ('all' in condition) return condition.all.every(item => evaluateCondition(item, context, field))
+  if ('any' in condition) return condition.any.some(item => evaluateCondition(item, context, field))
+  if ('not' in condition) return !evaluateCondition(condition.not, context, field)
+
+  const value = context.get(condition.field)
+  if ('equals' in condition) return looseEquals(value, condition.equals)
+  if ('notEquals' in condition) return !looseEquals(value, condition.notEquals)
+  if (condition.in) return condition.in.some(item => looseEquals(value, item))
+  if (condition.present !== undefined) {
+    return (value !== undefined && value !== null && value !== '') === condition.present
+  }
+  return isTruthy(value)
+}
+
+/**
+ * Applies rules to processed form data, so the result only holds what the user meant to
+ * submit: hidden sections are dropped, derived fields computed and missing fields defaulted
+ * @param data - The result of processFormData; it is not modified
+ * @param rules - Defaults, conditions and computed fields by field name
+ * @returns A copy of the data with the rules applied
+ * @throws FormDataParseError with code `INVALID_RULE` for malformed field names or expressions
+ */
+export function applyFormRules(data: ProcessedFormData, rules: FormRules): ProcessedFormData {
+  const result = cloneContainers(data) as ProcessedFormData
+
+  const createContext = (indices: number[]): RuleContext => ({
+    data: result,
+    indices,
+    get: field => {
+      const segments = toSegments(field)
+      const paths = expandPaths(result, segments, indices)
+      // Wildcards beyond the rule's own indices read every matching item
+      const isList = segments.filter(segment => segment === '').length > indices.length
+      return isList
+        ? paths.map(({ path }) => getPath(result, path)).filter(value => value !== undefined)
+        : paths.length > 0
+          ? getPath(result, paths[0].path)
+          : undefined
+    },
+  })
+
+  // Matches every field a rule targets; new fields are matched through their existing parents
+  const targetsOf = (field: string, existingOnly: boolean) => {
+    const segments = toSegments(field)
+    const last = segments[segments.length - 1]
+    if (!existingOnly && last !== '') {
+      return expandPaths(result, segments.slice(0, -1)).map(({ path, indices }) => ({ path: [...path, last], indices }))
+    }
+    return expandPaths(result, segments).filter(({ path }) => getPath(result, path) !== undefined)
+  }
+
+  // Removes fields, taking array items from the end so the remaining indices stay valid
+  const removeAll = (paths: PathSegment[][]): void => {
+    ;[...paths]
+      .sort((a, b) => {
+        const last = (path: PathSegment[]) => path[path.length - 1]
+        return typeof last(a) === 'number' && typeof last(b) === 'number' ? Number(last(b)) - Number(last(a)) : 0
+      })
+      .forEach(path => {
+        const parent = getPath(result, path.slice(0, -1))
+        const key = path[path.length - 1]
+        if (Array.isArray(parent) && typeof key === 'number') parent.splice(key, 1)
+        else if (isPlainContainer(parent)) delete (parent as Record<string, unknown>)[key]
+      })
+  }
+
+  Object.entries(rules.defaults ?? {}).forEach(([field, value]) => {
+    targetsOf(field, false).forEach(({ path }) => {
+      if (getPath(result, path) === undefined) setPath(result, path, cloneContainers(value))
+    })
+  })
+
+  Object.entries(rules.include ?? {}).forEach(([field, condition]) => {
+    const hidden = targetsOf(field, true).filter(
+      ({ indices }) => !evaluateCondition(condition, createContext(indices), field)
+    )
+    removeAll(hidden.map(({ path }) => path))
+  })
+
+  Object.entries(rules.exclude ?? {}).forEach(([field, condition]) => {
+    const hidden = targetsOf(field, true).filter(({ indices }) =>
+      evaluateCondition(condition, createContext(indices), field)
+    )
+    removeAll(hidden.map(({ path }) => path))
+  })
+
+  Object.entries(rules.computed ?? {}).forEach(([field, computation]) => {
+    const compute = typeof computation === 'string' ? getExpression(computation, field) : computation
+    targetsOf(field, false).forEach(({ path, indices }) => {
+      if (!setPath(result, path, compute(createContext(indices)))) {
+        throw new FormDataParseError('INVALID_RULE', field, `"${field}" is inside a value, not an object`)
+      }
+    })
+  })
+
+  return result
+}
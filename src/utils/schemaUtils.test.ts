@@ -0,0 +1,248 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+
+import { FieldError, Infer, parseWithSchema, schema } from './schemaUtils'
+
+describe('parseWithSchema', () => {
+  // Helper function to create a FormData object from entries
+  function createFormData(entries: Array<[string, string | File]>): FormData {
+    const formData = new FormData()
+    entries.forEach(([key, value]) => {
+      formData.append(key, value)
+    })
+    return formData
+  }
+
+  // Helper function to pull the errors out of a failed result
+  function errorsOf(result: ReturnType<typeof parseWithSchema>): FieldError[] {
+    if (result.success) throw new Error('Expected validation to fail')
+    return result.errors
+  }
+
+  const profileSchema = schema.object({
+    contactMethod: schema.enum(['email', 'phone', 'mail']),
+    age: schema.number({ integer: true, min: 0 }).optional(),
+    subscribe: schema.boolean(),
+    birthday: schema.date().optional(),
+    profile: schema.array(
+      schema.object({
+        name: schema.string(),
+        email: schema.string({ pattern: /@/ }).optional(),
+      }),
+      { min: 1, max: 3 }
+    ),
+    ssns: schema.array(schema.string()),
+  })
+
+  it('should coerce numbers, booleans, dates and enums', () => {
+    const formData = createFormData([
+      ['contactMethod', 'phone'],
+      ['age', '30'],
+      ['subscribe', 'on'],
+      ['birthday', '1990-05-17'],
+      ['profile[0][name]', 'John Doe'],
+      ['ssns[0]', '123-45-6789'],
+    ])
+
+    const result = parseWithSchema(profileSchema, formData)
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        contactMethod: 'phone',
+        age: 30,
+        subscribe: true,
+        birthday: new Date('1990-05-17'),
+        profile: [{ name: 'John Doe' }],
+        ssns: ['123-45-6789'],
+      },
+    })
+  })
+
+  it('should treat an unchecked checkbox as false and missing arrays as empty', () => {
+    const formData = createFormData([
+      ['contactMethod', 'email'],
+      ['profile[0][name]', 'John Doe'],
+    ])
+
+    const result = parseWithSchema(profileSchema, formData)
+
+    expect(result.success && result.data).toEqual({
+      contactMethod: 'email',
+      subscribe: false,
+      profile: [{ name: 'John Doe' }],
+      ssns: [],
+    })
+  })
+
+  it('should report errors keyed by bracket field name', () => {
+    const formData = createFormData([
+      ['contactMethod', 'fax'],
+      ['age', 'thirty'],
+      ['birthday', 'next tuesday'],
+      ['profile[0][name]', 'John Doe'],
+      ['profile[0][email]', 'not-an-email'],
+      ['profile[1][email]', 'jane@example.com'],
+    ])
+
+    const errors = errorsOf(parseWithSchema(profileSchema, formData))
+
+    expect(errors.map(({ field, code }) => [field, code])).toEqual([
+      ['contactMethod', 'invalid_enum'],
+      ['age', 'invalid_type'],
+      ['birthday', 'invalid_type'],
+      ['profile[0][email]', 'invalid_type'],
+      ['profile[1][name]', 'required'],
+    ])
+    expect(errors[4].path).toEqual(['profile', 1, 'name'])
+  })
+
+  it('should name errors after the original inputs when empty rows shift indices', () => {
+    const formData = createFormData([
+      ['contactMethod', 'email'],
+      ['profile[0][name]', ''],
+      ['profile[1][name]', 'John Doe'],
+      ['profile[2][email]', 'not-an-email'],
+    ])
+
+    const errors = errorsOf(parseWithSchema(profileSchema, formData))
+
+    expect(errors.map(({ field, path }) => [field, path])).toEqual([
+      ['profile[2][name]', ['profile', 1, 'name']],
+      ['profile[2][email]', ['profile', 1, 'email']],
+    ])
+  })
+
+  it('should enforce array min and max', () => {
+    const tooFew = createFormData([['contactMethod', 'email']])
+    const tooMany = createFormData([
+      ['contactMethod', 'email'],
+      ...[0, 1, 2, 3].map((i): [string, string] => [`profile[${i}][name]`, `Person ${i}`]),
+    ])
+
+    expect(errorsOf(parseWithSchema(profileSchema, tooFew))).toEqual([
+      { field: 'profile', path: ['profile'], code: 'too_small', message: 'Select at least 1 item(s)' },
+    ])
+    expect(errorsOf(parseWithSchema(profileSchema, tooMany))[0]).toMatchObject({ field: 'profile', code: 'too_big' })
+  })
+
+  it('should treat a single repeated-key value as a one-item array', () => {
+    const interestsSchema = schema.object({ interests: schema.array(schema.enum(['music', 'sports'])) })
+
+    expect(parseWithSchema(interestsSchema, createFormData([['interests', 'music']]))).toEqual({
+      success: true,
+      data: { interests: ['music'] },
+    })
+    expect(
+      parseWithSchema(
+        interestsSchema,
+        createFormData([
+          ['interests', 'music'],
+          ['interests', 'sports'],
+        ])
+      )
+    ).toEqual({ success: true, data: { interests: ['music', 'sports'] } })
+  })
+
+  it('should treat a group of blank rows as an empty array', () => {
+    const ssnSchema = schema.object({
+      ssns: schema.array(schema.string()),
+      phones: schema.array(schema.string(), { min: 1 }),
+    })
+    const formData = createFormData([
+      ['ssns[0]', ''],
+      ['ssns[1]', ''],
+      ['phones[0]', ''],
+    ])
+
+    expect(errorsOf(parseWithSchema(ssnSchema, formData))).toEqual([
+      { field: 'phones', path: ['phones'], code: 'too_small', message: 'Select at least 1 item(s)' },
+    ])
+    expect(parseWithSchema(schema.object({ ssns: schema.array(schema.string()) }), formData)).toEqual({
+      success: true,
+      data: { ssns: [] },
+    })
+  })
+
+  it('should accept values that are already typed', () => {
+    const typedSchema = schema.object({
+      age: schema.number({ min: 18 }),
+      agree: schema.boolean(),
+      birthday: schema.date(),
+    })
+    const birthday = new Date('1990-01-01')
+
+    expect(parseWithSchema(typedSchema, { age: 30, agree: true, birthday })).toEqual({
+      success: true,
+      data: { age: 30, agree: true, birthday },
+    })
+    expect(
+      errorsOf(parseWithSchema(typedSchema, { age: Infinity, agree: false, birthday: new Date('x') })).map(
+        ({ field, code }) => [field, code]
+      )
+    ).toEqual([
+      ['age', 'invalid_type'],
+      ['birthday', 'invalid_type'],
+    ])
+  })
+
+  it('should report leaf errors for a missing required nested object', () => {
+    const addressSchema = schema.object({
+      user: schema.object({ address: schema.object({ city: schema.string(), zip: schema.string().optional() }) }),
+    })
+
+    const errors = errorsOf(parseWithSchema(addressSchema, createFormData([])))
+
+    expect(errors).toEqual([
+      {
+        field: 'user[address][city]',
+        path: ['user', 'address', 'city'],
+        code: 'required',
+        message: 'This field is required',
+      },
+    ])
+  })
+
+  it('should validate file mime type and size', () => {
+    const uploadSchema = schema.object({
+      avatar: schema.file({ accept: ['image/*'], maxSize: 10 }),
+      resume: schema.file({ accept: ['application/pdf'] }).optional(),
+    })
+    const avatar = new File(['x'.repeat(20)], 'avatar.png', { type: 'image/png' })
+    const resume = new File(['resume'], 'resume.doc', { type: 'application/msword' })
+
+    const errors = errorsOf(
+      parseWithSchema(
+        uploadSchema,
+        createFormData([
+          ['avatar', avatar],
+          ['resume', resume],
+        ])
+      )
+    )
+
+    expect(errors.map(({ field, code }) => [field, code])).toEqual([
+      ['avatar', 'file_too_large'],
+      ['resume', 'invalid_file_type'],
+    ])
+  })
+
+  it('should treat an empty file input as missing', () => {
+    const uploadSchema = schema.object({ resume: schema.file().optional() })
+    const empty = new File([], '', { type: 'application/octet-stream' })
+
+    expect(parseWithSchema(uploadSchema, createFormData([['resume', empty]]))).toEqual({ success: true, data: {} })
+  })
+
+  it('should infer the result type from the schema', () => {
+    type Profile = Infer<typeof profileSchema>
+
+    expectTypeOf<Profile>().toEqualTypeOf<{
+      contactMethod: 'email' | 'phone' | 'mail'
+      subscribe: boolean
+      profile: Array<{ name: string; email?: string | undefined }>
+      ssns: string[]
+      age?: number | undefined
+      birthday?: Date | undefined
+    }>()
+  })
+})
@@ -0,0 +1,332 @@
+import {
+  FormDataInput,
+  FormDataSourceMap,
+  PathSegment,
+  ProcessedFormData,
+  processFormDataWithSourceMap,
+  ProcessFormDataOptions,
+  toFieldName,
+} from './formUtils'
+
+/**
+ * Type definitions for schema-driven parsing
+ */
+export type FieldErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_enum'
+  | 'too_small'
+  | 'too_big'
+  | 'invalid_file_type'
+  | 'invalid_file_extension'
+  | 'file_too_large'
+
+export interface FieldError {
+  // Bracket-notation field name of the offending input, e.g. `profile[2][email]`
+  field: string
+  // Path into the processed result, e.g. `['profile', 1, 'email']`
+  path: PathSegment[]
+  code: FieldErrorCode
+  message: string
+}
+
+export interface Schema<T> {
+  readonly kind: 'string' | 'number' | 'boolean' | 'date' | 'enum' | 'file' | 'array' | 'object'
+  readonly isOptional: boolean
+  // Coerces a processed value, pushing any problems onto errors
+  readonly check: (value: unknown, path: PathSegment[], errors: FieldError[]) => T
+  optional(): Schema<T | undefined>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+export type Shape = Record<string, Schema<unknown>>
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>
+  }
+>
+
+export type SchemaResult<T> = { success: true; data: T } | { success: false; errors: FieldError[] }
+
+export interface StringOptions {
+  minLength?: number
+  maxLength?: number
+  pattern?: RegExp
+}
+
+export interface NumberOptions {
+  min?: number
+  max?: number
+  integer?: boolean
+}
+
+export interface FileOptions {
+  // Mime types, with `*` wildcards, e.g. `['image/*', 'application/pdf']`
+  accept?: string[]
+  // Maximum size in bytes
+  maxSize?: number
+}
+
+export interface ArrayOptions {
+  min?: number
+  max?: number
+}
+
+// Checkbox and select values that mean true or false
+export const TRUE_VALUES = new Set(['on', 'true', '1', 'yes'])
+const FALSE_VALUES = new Set(['off', 'false', '0', 'no'])
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+/**
+ * Checks whether a processed value counts as not submitted
+ * @param value - The processed value
+ * @returns true for undefined, null, blank strings and empty file inputs
+ */
+function isMissing(value: unknown): boolean {
+  if (value === undefined || value === null) return true
+  if (typeof value === 'string') return value.trim() === ''
+  return value instanceof File && value.size === 0 && value.name === ''
+}
+
+// Helper function to check for the empty object a group of blank fields is processed into
+const isEmptyGroup = (value: unknown): boolean =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype &&
+  Object.keys(value).length === 0
+
+const pushError = (errors: FieldError[], path: PathSegment[], code: FieldErrorCode, message: string): void => {
+  errors.push({ field: toFieldName(path), path, code, message })
+}
+
+/**
+ * Creates a schema node with shared handling of missing and optional values
+ * @param kind - The schema kind
+ * @param coerce - Converts a submitted value, pushing errors when it is invalid
+ * @param missing - Value to use when nothing was submitted, instead of a required error
+ * @returns The schema
+ */
+function createSchema<T>(
+  kind: Schema<T>['kind'],
+  coerce: (value: unknown, path: PathSegment[], errors: FieldError[]) => T,
+  missing?: (path: PathSegment[], errors: FieldError[], isOptional: boolean) => T | undefined
+): Schema<T> {
+  const build = (isOptional: boolean): Schema<T> => ({
+    kind,
+    isOptional,
+    check: (value, path, errors) => {
+      if (isMissing(value)) {
+        if (missing) return missing(path, errors, isOptional) as T
+        if (!isOptional) pushError(errors, path, 'required', 'This field is required')
+        return undefined as T
+      }
+      return coerce(value, path, errors)
+    },
+    optional: () => build(true) as Schema<T | undefined>,
+  })
+  return build(false)
+}
+
+/**
+ * Matches a mime type against a pattern such as `image/*`
+ * @param type - The file's mime type
+ * @param pattern - The accepted pattern
+ * @returns true if the type matches
+ */
+export function matchesMimeType(type: string, pattern: string): boolean {
+  if (pattern === '*' || pattern === '*/*') return true
+  if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1))
+  return type === pattern
+}
+
+/**
+ * Checks an array length against min/max options
+ * @returns The array unchanged
+ */
+function checkLength<T>(items: T[], options: ArrayOptions, path: PathSegment[], errors: FieldError[]): T[] {
+  if (options.min !== undefined && items.length < options.min) {
+    pushError(errors, path, 'too_small', `Select at least ${options.min} item(s)`)
+  }
+  if (options.max !== undefined && items.length > options.max) {
+    pushError(errors, path, 'too_big', `Select at most ${options.max} item(s)`)
+  }
+  return items
+}
+
+/**
+ * Schema builders for declaring the expected shape of a form
+ */
+export const schema = {
+  string(options: StringOptions = {}): Schema<string> {
+    return createSchema('string', (value, path, errors) => {
+      if (typeof value !== 'string') {
+        pushError(errors, path, 'invalid_type', 'Expected text')
+        return undefined as unknown as string
+      }
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        pushError(errors, path, 'too_small', `Must be at least ${options.minLength} characters`)
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        pushError(errors, path, 'too_big', `Must be at most ${options.maxLength} characters`)
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        pushError(errors, path, 'invalid_type', 'Invalid format')
+      }
+      return value
+    })
+  },
+
+  number(options: NumberOptions = {}): Schema<number> {
+    return createSchema('number', (value, path, errors) => {
+      // JSON bodies and typed form values arrive as numbers already
+      const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN
+      if (!isFinite(number) || (options.integer && !Number.isInteger(number))) {
+        pushError(errors, path, 'invalid_type', options.integer ? 'Expected a whole number' : 'Expected a number')
+        return number
+      }
+      if (options.min !== undefined && number < options.min) {
+        pushError(errors, path, 'too_small', `Must be at least ${options.min}`)
+      }
+      if (options.max !== undefined && number > options.max) {
+        pushError(errors, path, 'too_big', `Must be at most ${options.max}`)
+      }
+      return number
+    })
+  },
+
+  // Unchecked checkboxes are not submitted, so a missing boolean is false
+  boolean(): Schema<boolean> {
+    return createSchema(
+      'boolean',
+      (value, path, errors) => {
+        if (typeof value === 'boolean') return value
+        const normalized = typeof value === 'string' ? value.trim().toLowerCase() : ''
+        if (TRUE_VALUES.has(normalized)) return true
+        if (!FALSE_VALUES.has(normalized)) pushError(errors, path, 'invalid_type', 'Expected a checkbox value')
+        return false
+      },
+      () => false
+    )
+  },
+
+  date(): Schema<Date> {
+    return createSchema('date', (value, path, errors) => {
+      let date: Date | null = null
+      if (value instanceof Date) {
+        date = value
+      } else if (typeof value === 'string' && ISO_DATE_PATTERN.test(value.trim())) {
+        date = new Date(value.trim())
+      }
+      if (!date || isNaN(date.getTime())) {
+        pushError(errors, path, 'invalid_type', 'Expected a date')
+        return undefined as unknown as Date
+      }
+      return date
+    })
+  },
+
+  enum<const T extends readonly string[]>(values: T): Schema<T[number]> {
+    return createSchema('enum', (value, path, errors) => {
+      if (typeof value !== 'string' || !values.includes(value)) {
+        pushError(errors, path, 'invalid_enum', `Expected one of: ${values.join(', ')}`)
+      }
+      return value as T[number]
+    })
+  },
+
+  file(options: FileOptions = {}): Schema<File> {
+    return createSchema('file', (value, path, errors) => {
+      if (!(value instanceof File)) {
+        pushError(errors, path, 'invalid_type', 'Expected a file')
+        return undefined as unknown as File
+      }
+      if (options.accept && !options.accept.some(pattern => matchesMimeType(value.type, pattern))) {
+        pushError(errors, path, 'invalid_file_type', `File type ${value.type || 'unknown'} is not allowed`)
+      }
+      if (options.maxSize !== undefined && value.size > options.maxSize) {
+        pushError(errors, path, 'file_too_large', `File must be at most ${options.maxSize} bytes`)
+      }
+      return value
+    })
+  },
+
+  // A single submitted value is treated as a one-item array, and a group of blank rows as no items
+  array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+    return createSchema(
+      'array',
+      (value, path, errors) => {
+        const items = Array.isArray(value) ? value : isEmptyGroup(value) ? [] : [value]
+        return checkLength(
+          items.map((child, index) => item.check(child, [...path, index], errors)),
+          options,
+          path,
+          errors
+        )
+      },
+      (path, errors, isOptional) => (isOptional ? undefined : checkLength([], options, path, errors))
+    )
+  },
+
+  // A missing required object is checked as empty so errors point at its fields
+  object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    const coerce = (value: unknown, path: PathSegment[], errors: FieldError[]): InferShape<S> => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof File) {
+        pushError(errors, path, 'invalid_type', 'Expected a group of fields')
+        return undefined as unknown as InferShape<S>
+      }
+
+      const output: Record<string, unknown> = {}
+      Object.entries(shape).forEach(([key, child]) => {
+        const checked = child.check((value as Record<string, unknown>)[key], [...path, key], errors)
+        if (checked !== undefined) output[key] = checked
+      })
+      return output as InferShape<S>
+    }
+
+    return createSchema('object', coerce, (path, errors, isOptional) =>
+      isOptional ? undefined : coerce({}, path, errors)
+    )
+  },
+}
+
+/**
+ * Processes form data and validates it against a schema
+ * @param objectSchema - The expected shape, built with `schema.object`
+ * @param data - The data to process: FormData, URLSearchParams, a query string, entries or a Record object
+ * @param options - Options passed through to processFormData
+ * @returns The typed result, or the list of field errors named after the submitted inputs
+ */
+export function parseWithSchema<T>(
+  objectSchema: Schema<T>,
+  data: FormDataInput,
+  options: ProcessFormDataOptions = {}
+): SchemaResult<T> {
+  const { result, sourceMap } = processFormDataWithSourceMap(data, options)
+  return checkSchema(objectSchema, result, sourceMap)
+}
+
+/**
+ * Validates already processed form data against a schema
+ * @param objectSchema - The expected shape, built with `schema.object`
+ * @param result - The processed result
+ * @param sourceMap - The source map of the result, used to name fields after the submitted inputs
+ * @returns The typed result, or the list of field errors
+ */
+export function checkSchema<T>(
+  objectSchema: Schema<T>,
+  result: ProcessedFormData,
+  sourceMap: FormDataSourceMap
+): SchemaResult<T> {
+  const errors: FieldError[] = []
+  const value = objectSchema.check(result, [], errors)
+
+  // Indices shift when empty items are filtered out, so name errors after the original inputs
+  return errors.length > 0
+    ? { success: false, errors: errors.map(error => ({ ...error, field: sourceMap.fieldNameOf(error.path) })) }
+    : { success: true, data: value }
+}
@@ -0,0 +1,304 @@
+// @vitest-environment node
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { FormDataParseError } from './formUtils'
+import {
+  fastifyFormData,
+  FastifyInstanceLike,
+  formDataMiddleware,
+  getBodyType,
+  getErrorStatus,
+  IncomingMessageLike,
+  MiddlewareRequest,
+  parseIncomingMessage,
+  parseRequest,
+  withRequestData,
+} from './serverUtils'
+
+// Helper function to build a POST request to a fake route
+const post = (body: BodyInit, headers?: Record<string, string>): Request =>
+  new Request('http://localhost/profile', { method: 'POST', body, headers })
+
+describe('getBodyType', () => {
+  it('should detect the body type from the content type', () => {
+    expect(getBodyType('application/x-www-form-urlencoded;charset=UTF-8')).toBe('urlencoded')
+    expect(getBodyType('multipart/form-data; boundary=----abc')).toBe('multipart')
+    expect(getBodyType('Application/JSON')).toBe('json')
+    expect(getBodyType('application/vnd.api+json')).toBe('json')
+    expect(getBodyType('text/plain')).toBeNull()
+    expect(getBodyType(undefined)).toBeNull()
+  })
+})
+
+describe('parseRequest', () => {
+  it('should parse urlencoded bodies', async () => {
+    const request = post(new URLSearchParams('user[name]=John&tags[]=a&tags[]=b'))
+
+    expect(await parseRequest(request)).toEqual({ user: { name: 'John' }, tags: ['a', 'b'] })
+  })
+
+  it('should parse multipart bodies with files', async () => {
+    const formData = new FormData()
+    formData.append('profile[0][name]', 'John')
+    formData.append('profile[0][avatar]', new File(['<svg/>'], 'avatar.svg', { type: 'image/svg+xml' }))
+
+    const result = await parseRequest(post(formData))
+
+    expect(result).toEqual({ profile: [{ name: 'John', avatar: expect.any(File) }] })
+    const avatar = (result.profile as Array<Record<string, File>>)[0].avatar
+    expect(avatar.name).toBe('avatar.svg')
+    expect(await avatar.text()).toBe('<svg/>')
+  })
+
+  it('should parse JSON bodies with bracket keys', async () => {
+    const request = post(JSON.stringify({ 'user[name]': 'John', 'user[age]': '30' }), {
+      'content-type': 'application/json',
+    })
+
+    expect(await parseRequest(request)).toEqual({ user: { name: 'John', age: '30' } })
+  })
+
+  it('should pass options through to processFormData', async () => {
+    const request = post(new URLSearchParams('user.first_name=John'))
+
+    expect(await parseRequest(request, { pathSyntax: 'dot', keyTransform: 'camel' })).toEqual({
+      user: { firstName: 'John' },
+    })
+  })
+
+  it('should reject unsupported, malformed and oversized bodies', async () => {
+    await expect(parseRequest(post('hello', { 'content-type': 'text/plain' }))).rejects.toMatchObject({
+      code: 'UNSUPPORTED_CONTENT_TYPE',
+    })
+    await expect(parseRequest(post('{"a":', { 'content-type': 'application/json' }))).rejects.toMatchObject({
+      code: 'MALFORMED_JSON',
+    })
+    await expect(parseRequest(post('[1]', { 'content-type': 'application/json' }))).rejects.toMatchObject({
+      code: 'MALFORMED_JSON',
+    })
+    await expect(parseRequest(post(new URLSearchParams('a=123456')), { maxBodySize: 4 })).rejects.toMatchObject({
+      code: 'MAX_BODY_SIZE',
+    })
+    expect(await parseRequest(post(new URLSearchParams('a=123456')), { maxBodySize: 4, hardened: false })).toEqual({
+      a: '123456',
+    })
+  })
+
+  it('should return an empty object for requests without a body', async () => {
+    const request = new Request('http://localhost/profile', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    })
+
+    expect(await parseRequest(request)).toEqual({})
+  })
+
+  it('should parse the query string of requests without a body', async () => {
+    const request = new Request('http://localhost/search?q=shoes&filters[size][]=9&filters[size][]=10')
+
+    expect(await parseRequest(request)).toEqual({ q: 'shoes', filters: { size: ['9', '10'] } })
+    expect(await parseRequest(new Request('http://localhost/search?c=%E9'), { charset: 'iso-8859-1' })).toEqual({
+      c: 'é',
+    })
+  })
+
+  it('should decode urlencoded bodies in the charset of the content type', async () => {
+    const latin1 = post('c=%E9&n=%C3%A9', { 'content-type': 'application/x-www-form-urlencoded; charset=ISO-8859-1' })
+    const utf8 = post('c=%C3%A9', { 'content-type': 'application/x-www-form-urlencoded' })
+
+    expect(await parseRequest(latin1)).toEqual({ c: 'é', n: 'Ã©' })
+    expect(await parseRequest(utf8, { charset: 'iso-8859-1' })).toEqual({ c: 'Ã©' })
+    await expect(
+      parseRequest(post('c=1', { 'content-type': 'application/x-www-form-urlencoded; charset=x-unknown' }))
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_CONTENT_TYPE' })
+  })
+})
+
+describe('getErrorStatus', () => {
+  it('should map errors to HTTP statuses', () => {
+    expect(getErrorStatus(new FormDataParseError('MAX_BODY_SIZE', '', ''))).toBe(413)
+    expect(getErrorStatus(new FormDataParseError('MAX_FILE_SIZE', 'avatar', ''))).toBe(413)
+    expect(getErrorStatus(new FormDataParseError('UNSUPPORTED_CONTENT_TYPE', '', ''))).toBe(415)
+    expect(getErrorStatus(new FormDataParseError('DANGEROUS_KEY', '__proto__', ''))).toBe(400)
+    expect(getErrorStatus(new Error('boom'))).toBe(500)
+  })
+})
+
+describe('withRequestData', () => {
+  const action = withRequestData((data, { params }: { request: Request; params: { id: string } }) => ({
+    id: params.id,
+    ...data,
+  }))
+
+  it('should pass the parsed body and the route arguments to the handler', async () => {
+    const request = post(new URLSearchParams('user[name]=John'))
+
+    expect(await action({ request, params: { id: '7' } })).toEqual({ id: '7', user: { name: 'John' } })
+  })
+
+  it('should throw a Response for parse errors', async () => {
+    const request = post('{"user":', { 'content-type': 'application/json' })
+
+    const thrown = await action({ request, params: { id: '7' } }).catch((error: unknown) => error)
+    expect(thrown).toBeInstanceOf(Response)
+    expect((thrown as Response).status).toBe(400)
+  })
+
+  it('should parse the query string for a loader', async () => {
+    const loader = withRequestData(data => data)
+
+    expect(await loader({ request: new Request('http://localhost/search?q=shoes&page=2') })).toEqual({
+      q: 'shoes',
+      page: '2',
+    })
+  })
+})
+
+// Express sets req.body on the request Node passes to the handler
+type NodeRequest = IncomingMessage & MiddlewareRequest
+
+describe('Node servers', () => {
+  let server: Server
+  let url: string
+  // Runs the current handler for every request to the server
+  let handle: (request: NodeRequest, response: ServerResponse) => void
+
+  const send = (response: ServerResponse, status: number, body: unknown): void => {
+    response.statusCode = status
+    response.setHeader('content-type', 'application/json')
+    response.end(JSON.stringify(body))
+  }
+
+  beforeAll(async () => {
+    server = createServer((request, response) => handle(request, response))
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  })
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+  it('should parse an IncomingMessage', async () => {
+    handle = (request, response) => {
+      parseIncomingMessage(request).then(
+        body => send(response, 200, body),
+        (error: unknown) => send(response, getErrorStatus(error), { code: (error as FormDataParseError).code })
+      )
+    }
+
+    const formData = new FormData()
+    formData.append('user[name]', 'John')
+    formData.append('user[tags][]', 'a')
+    const response = await fetch(url, { method: 'POST', body: formData })
+    expect(await response.json()).toEqual({ user: { name: 'John', tags: ['a'] } })
+
+    const unsupported = await fetch(url, { method: 'POST', body: 'hello', headers: { 'content-type': 'text/plain' } })
+    expect(unsupported.status).toBe(415)
+    expect(await unsupported.json()).toEqual({ code: 'UNSUPPORTED_CONTENT_TYPE' })
+  })
+
+  it('should set req.body from Express-style middleware', async () => {
+    const middleware = formDataMiddleware({ maxBodySize: 16 })
+    handle = (request, response) => {
+      middleware(request, response, error => {
+        if (error) {
+          send(response, getErrorStatus(error), { code: (error as FormDataParseError).code })
+        } else {
+          send(response, 200, { body: request.body ?? null })
+        }
+      })
+    }
+
+    const parsed = await fetch(url, { method: 'POST', body: new URLSearchParams('a[b]=c') })
+    expect(await parsed.json()).toEqual({ body: { a: { b: 'c' } } })
+
+    const skipped = await fetch(url, { method: 'POST', body: 'hello', headers: { 'content-type': 'text/plain' } })
+    expect(await skipped.json()).toEqual({ body: null })
+
+    const tooLarge = await fetch(url, { method: 'POST', body: new URLSearchParams(`a=${'x'.repeat(32)}`) })
+    expect(tooLarge.status).toBe(413)
+    expect(await tooLarge.json()).toEqual({ code: 'MAX_BODY_SIZE' })
+  })
+})
+
+describe('formDataMiddleware', () => {
+  // Helper function to run the middleware, resolving to the error passed to next
+  const run = (request: MiddlewareRequest): Promise<unknown> =>
+    new Promise(resolve => formDataMiddleware()(request, {}, resolve))
+
+  it('should process a body already parsed by another middleware', async () => {
+    const request: MiddlewareRequest = {
+      headers: { 'content-type': 'application/json' },
+      body: { 'user[name]': 'John' },
+      _body: true,
+      async *[Symbol.asyncIterator]() {},
+    }
+
+    expect(await run(request)).toBeUndefined()
+    expect(request.body).toEqual({ user: { name: 'John' } })
+  })
+
+  it('should parse a multipart body that express.json() skipped and left as {}', async () => {
+    const formData = new FormData()
+    formData.append('user[name]', 'John')
+    formData.append('user[tags][]', 'a')
+    const multipart = post(formData)
+    const bytes = new Uint8Array(await multipart.arrayBuffer())
+    const request: MiddlewareRequest = {
+      headers: { 'content-type': multipart.headers.get('content-type') ?? '' },
+      body: {},
+      async *[Symbol.asyncIterator]() {
+        yield bytes
+      },
+    }
+
+    expect(await run(request)).toBeUndefined()
+    expect(request.body).toEqual({ user: { name: 'John', tags: ['a'] } })
+  })
+
+  it('should leave a body that another middleware read as text untouched', async () => {
+    const request: MiddlewareRequest = {
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'a=1',
+      readableEnded: true,
+      async *[Symbol.asyncIterator]() {},
+    }
+
+    expect(await run(request)).toBeUndefined()
+    expect(request.body).toBe('a=1')
+  })
+})
+
+describe('fastifyFormData', () => {
+  it('should register content type parsers that replace the JSON parser', async () => {
+    const removed: Array<string | string[]> = []
+    let registered: Parameters<FastifyInstanceLike['addContentTypeParser']> | undefined
+    const fastify: FastifyInstanceLike = {
+      addContentTypeParser: (...args) => {
+        registered = args
+      },
+      removeContentTypeParser: contentType => {
+        removed.push(contentType)
+      },
+    }
+
+    await fastifyFormData(fastify, { keyTransform: 'camel' })
+
+    expect(removed).toEqual(['application/json'])
+    expect(registered?.[0]).toEqual(['application/x-www-form-urlencoded', 'multipart/form-data', 'application/json'])
+    expect((fastifyFormData as unknown as Record<symbol, unknown>)[Symbol.for('skip-override')]).toBe(true)
+
+    const payload: IncomingMessageLike = {
+      headers: {},
+      async *[Symbol.asyncIterator]() {
+        yield 'user[first_name]=Jo'
+        yield 'hn'
+      },
+    }
+    const parser = registered?.[1]
+    expect(await parser?.({ headers: { 'content-type': 'application/x-www-form-urlencoded' } }, payload)).toEqual({
+      user: { firstName: 'John' },
+    })
+  })
+})
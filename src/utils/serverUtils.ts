@@ -0,0 +1,315 @@
+import { FormDataParseError, isPlainObject, processFormData, ProcessedFormData } from './formUtils'
+import { getMultipartBoundary, MultipartOptions, processMultipart } from './multipartUtils'
+import { parseQueryString } from './queryUtils'
+
+/**
+ * Type definitions for parsing request bodies on the server
+ */
+export type BodyType = 'urlencoded' | 'multipart' | 'json'
+
+export interface ParseRequestOptions extends Omit<MultipartOptions, 'boundary'> {
+  // Largest urlencoded or JSON body in bytes, applied in hardened mode (default: 1 MiB)
+  maxBodySize?: number
+}
+
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024
+
+// Header values as Node exposes them
+type NodeHeaders = Record<string, string | string[] | undefined>
+
+/**
+ * The parts of Node's IncomingMessage used here: its headers and the body as an async iterable
+ */
+export interface IncomingMessageLike extends AsyncIterable<Uint8Array | string> {
+  headers: NodeHeaders
+}
+
+/**
+ * Detects how a body is encoded from its Content-Type header
+ * @param contentType - The header value, e.g. `multipart/form-data; boundary=----abc`
+ * @returns The body type, or null for content types that are not form data or JSON
+ */
+export function getBodyType(contentType: string | null | undefined): BodyType | null {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase() ?? ''
+  if (mediaType === 'application/x-www-form-urlencoded') return 'urlencoded'
+  if (mediaType === 'multipart/form-data') return 'multipart'
+  if (mediaType === 'application/json' || /^application\/[^/]+\+json$/.test(mediaType)) return 'json'
+  return null
+}
+
+/**
+ * Reads the charset parameter of a Content-Type header
+ * @param contentType - The header value, e.g. `application/x-www-form-urlencoded; charset=iso-8859-1`
+ * @returns The charset, or undefined if the header has none
+ * @throws FormDataParseError if the charset is not supported
+ */
+function getCharset(contentType: string | null): string | undefined {
+  const charset = /;\s*charset\s*=\s*"?([^";\s]+)/i.exec(contentType ?? '')?.[1]
+  if (charset === undefined) return undefined
+  try {
+    new TextDecoder(charset)
+  } catch {
+    throw new FormDataParseError('UNSUPPORTED_CONTENT_TYPE', '', `Charset ${charset} is not supported`)
+  }
+  return charset
+}
+
+/**
+ * Reads a whole text body, enforcing the size limit
+ * @param body - The body stream
+ * @param maxSize - The largest accepted size in bytes, or null for no limit
+ * @returns The body decoded as UTF-8
+ * @throws FormDataParseError if the body is larger than the limit
+ */
+async function readText(body: ReadableStream<Uint8Array>, maxSize: number | null): Promise<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+  let size = 0
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    size += result.value.length
+    if (maxSize !== null && size > maxSize) {
+      await reader.cancel()
+      throw new FormDataParseError('MAX_BODY_SIZE', '', `The body is larger than the limit of ${maxSize} bytes`)
+    }
+    text += decoder.decode(result.value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+/**
+ * Parses a request body by its content type
+ * @param contentType - The Content-Type header
+ * @param body - The body stream, or null for requests without one
+ * @param options - Parsing options shared by every body type
+ * @returns Structured form data object
+ * @throws FormDataParseError if the content type is not supported, the body is malformed or a limit is exceeded
+ */
+async function parseBody(
+  contentType: string | null,
+  body: ReadableStream<Uint8Array> | null,
+  options: ParseRequestOptions
+): Promise<ProcessedFormData> {
+  const { maxBodySize = DEFAULT_MAX_BODY_SIZE, ...processOptions } = options
+  if (!body) return {}
+
+  const type = getBodyType(contentType)
+  if (!type) {
+    throw new FormDataParseError(
+      'UNSUPPORTED_CONTENT_TYPE',
+      '',
+      `Content type ${contentType || '(none)'} is not form data or JSON`
+    )
+  }
+
+  if (type === 'multipart') {
+    const boundary = getMultipartBoundary(contentType as string)
+    if (!boundary) throw new FormDataParseError('MALFORMED_MULTIPART', '', 'The multipart boundary is missing')
+    return processMultipart(body, { ...processOptions, boundary })
+  }
+
+  if (type === 'urlencoded') {
+    // Percent-encoded bytes are in the charset the client declared
+    const charset = getCharset(contentType) ?? processOptions.charset
+    const text = await readText(body, options.hardened === false ? null : maxBodySize)
+    return processFormData(parseQueryString(text, { charset }), processOptions)
+  }
+
+  const text = await readText(body, options.hardened === false ? null : maxBodySize)
+
+  let json: unknown
+  try {
+    json = text.trim() === '' ? {} : JSON.parse(text)
+  } catch (error) {
+    throw new FormDataParseError('MALFORMED_JSON', '', `The body is not valid JSON: ${(error as Error).message}`)
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new FormDataParseError('MALFORMED_JSON', '', 'The JSON body must be an object')
+  }
+  return processFormData(json as Record<string, unknown>, processOptions)
+}
+
+/**
+ * Parses the body of a fetch API Request, as received by Remix, React Router, Next.js
+ * route handlers, Deno, Bun and Cloudflare Workers. Requests without a body, such as
+ * GET requests, are parsed from the query string of their URL instead.
+ * @param request - The request
+ * @param options - Parsing options shared by every body type
+ * @returns Structured form data object
+ * @throws FormDataParseError if the content type is not supported, the body is malformed or a limit is exceeded
+ */
+export async function parseRequest(request: Request, options: ParseRequestOptions = {}): Promise<ProcessedFormData> {
+  if (!request.body) return processFormData(new URL(request.url).search, options)
+  return parseBody(request.headers.get('content-type'), request.body, options)
+}
+
+// The first value of a Node header, which is an array when sent more than once
+const headerValue = (value: string | string[] | undefined): string | null =>
+  (Array.isArray(value) ? value[0] : value) ?? null
+
+/**
+ * Adapts a Node body to a web stream, reading a chunk only when the parser asks for one
+ * @param body - The body as an async iterable, e.g. an IncomingMessage
+ * @returns The body stream
+ */
+function toWebStream(body: AsyncIterable<Uint8Array | string>): ReadableStream<Uint8Array> {
+  const iterator = body[Symbol.asyncIterator]()
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const { value, done } = await iterator.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value)
+        }
+      },
+      async cancel() {
+        await iterator.return?.()
+      },
+    },
+    { highWaterMark: 0 }
+  )
+}
+
+/**
+ * Parses the body of a Node request
+ * @param request - The IncomingMessage, or anything with headers that iterates over the body
+ * @param options - Parsing options shared by every body type
+ * @returns Structured form data object
+ * @throws FormDataParseError if the content type is not supported, the body is malformed or a limit is exceeded
+ */
+export async function parseIncomingMessage(
+  request: IncomingMessageLike,
+  options: ParseRequestOptions = {}
+): Promise<ProcessedFormData> {
+  return parseBody(headerValue(request.headers['content-type']), toWebStream(request), options)
+}
+
+/**
+ * Chooses an HTTP status for an error thrown while parsing a request
+ * @param error - The error
+ * @returns 413 for size limits, 415 for unsupported content types, 400 for other
+ * parse errors and 500 for anything else
+ */
+export function getErrorStatus(error: unknown): number {
+  if (!(error instanceof FormDataParseError)) return 500
+  switch (error.code) {
+    case 'MAX_BODY_SIZE':
+    case 'MAX_FIELD_SIZE':
+    case 'MAX_FILE_SIZE':
+    case 'MAX_TOTAL_FILE_SIZE':
+      return 413
+    case 'UNSUPPORTED_CONTENT_TYPE':
+      return 415
+    default:
+      return 400
+  }
+}
+
+export interface MiddlewareRequest extends IncomingMessageLike {
+  body?: unknown
+  // Set by body-parser (express.json(), express.urlencoded()) once it has read the body
+  _body?: boolean
+  // Whether the body stream has been read to the end, e.g. by another middleware
+  readableEnded?: boolean
+}
+
+/**
+ * Creates Express (or Connect) middleware that sets `req.body` to the nested result.
+ * Requests that are not form data or JSON are passed on untouched, and bodies another
+ * middleware such as `express.json()` has already read are processed as JSON input.
+ * The placeholder `{}` that Express 4 body parsers leave on requests they skip is
+ * replaced by parsing the body, so multipart requests still work behind them.
+ * @param options - Parsing options shared by every body type
+ * @returns The middleware; parse errors are passed to `next`, see getErrorStatus
+ */
+export function formDataMiddleware(
+  options: ParseRequestOptions = {}
+): (request: MiddlewareRequest, response: unknown, next: (error?: unknown) => void) => void {
+  return (request, _response, next) => {
+    if (request._body || request.readableEnded) {
+      // The stream is consumed, so only a body parsed into an object is left to process
+      if (isPlainObject(request.body)) {
+        try {
+          request.body = processFormData(request.body, options)
+        } catch (error) {
+          next(error)
+          return
+        }
+      }
+      next()
+      return
+    }
+
+    if (!getBodyType(headerValue(request.headers['content-type']))) {
+      next()
+      return
+    }
+
+    parseIncomingMessage(request, options).then(body => {
+      request.body = body
+      next()
+    }, next)
+  }
+}
+
+/**
+ * The parts of a Fastify instance used by the plugin
+ */
+export interface FastifyInstanceLike {
+  addContentTypeParser(
+    contentType: string | string[],
+    parser: (request: { headers: NodeHeaders }, payload: AsyncIterable<Uint8Array | string>) => Promise<unknown>
+  ): void
+  removeContentTypeParser?(contentType: string | string[]): void
+}
+
+/**
+ * Fastify plugin that parses urlencoded, multipart and JSON bodies into `request.body`.
+ * It replaces Fastify's JSON parser, and applies to the instance it is registered on
+ * rather than an encapsulated child, like plugins wrapped with fastify-plugin.
+ * @param fastify - The Fastify instance
+ * @param options - Parsing options shared by every body type
+ */
+export async function fastifyFormData(fastify: FastifyInstanceLike, options: ParseRequestOptions = {}): Promise<void> {
+  fastify.removeContentTypeParser?.('application/json')
+  fastify.addContentTypeParser(
+    ['application/x-www-form-urlencoded', 'multipart/form-data', 'application/json'],
+    (request, payload) =>
+      parseIncomingMessage(
+        { headers: request.headers, [Symbol.asyncIterator]: () => payload[Symbol.asyncIterator]() },
+        options
+      )
+  )
+}
+
+// Read by Fastify to skip encapsulation, as fastify-plugin does
+Object.assign(fastifyFormData, { [Symbol.for('skip-override')]: true })
+
+/**
+ * Wraps a Remix or React Router `action` (or `loader`) so it receives the parsed body.
+ * Parse errors are thrown as a Response with the status from getErrorStatus, which the
+ * framework renders with the route's error boundary.
+ * @param handler - Handles the parsed data along with the original arguments
+ * @param options - Parsing options shared by every body type
+ * @returns The action
+ */
+export function withRequestData<Args extends { request: Request }, Result>(
+  handler: (data: ProcessedFormData, args: Args) => Result | Promise<Result>,
+  options: ParseRequestOptions = {}
+): (args: Args) => Promise<Result> {
+  return async args => {
+    let data: ProcessedFormData
+    try {
+      data = await parseRequest(args.request, options)
+    } catch (error) {
+      if (error instanceof FormDataParseError) throw new Response(error.message, { status: getErrorStatus(error) })
+      throw error
+    }
+    return handler(data, args)
+  }
+}
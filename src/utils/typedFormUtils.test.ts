@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { applyTypeHint, parseTypeHint, processForm } from './typedFormUtils'
+
+describe('processForm', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  // Helper function to create a form element from markup
+  function createForm(html: string): HTMLFormElement {
+    const form = document.createElement('form')
+    form.innerHTML = html
+    document.body.appendChild(form)
+    return form
+  }
+
+  describe('with a form element', () => {
+    it('should type values by input type', () => {
+      const form = createForm(`
+        <input type="text" name="profile[0][name]" value="John Doe" />
+        <input type="number" name="profile[0][age]" value="30" />
+        <input type="range" name="profile[0][rating]" min="0" max="10" value="7" />
+        <input type="date" name="profile[0][birthday]" value="1990-05-17" />
+        <input type="checkbox" name="profile[0][subscribe]" checked />
+        <input type="checkbox" name="profile[0][agree]" />
+        <textarea name="profile[0][bio]">Hello</textarea>
+      `)
+
+      expect(processForm(form)).toEqual({
+        profile: [
+          {
+            name: 'John Doe',
+            age: 30,
+            rating: 7,
+            birthday: new Date('1990-05-17'),
+            subscribe: true,
+            agree: false,
+            bio: 'Hello',
+          },
+        ],
+      })
+    })
+
+    it('should read empty number and date inputs as null', () => {
+      const form = createForm(`
+        <input type="number" name="qty" />
+        <input type="date" name="due" />
+        <input type="datetime-local" name="at" />
+      `)
+
+      expect(processForm(form)).toEqual({ qty: null, due: null, at: null })
+    })
+
+    it('should read local date-times in the local time zone', () => {
+      const form = createForm('<input type="datetime-local" name="meeting[at]" value="2024-03-01T09:30" />')
+
+      expect(processForm(form)).toEqual({ meeting: { at: new Date(2024, 2, 1, 9, 30) } })
+    })
+
+    it('should keep checkbox groups, radios and multiple selects as submitted values', () => {
+      const form = createForm(`
+        <input type="checkbox" name="interests[]" value="music" checked />
+        <input type="checkbox" name="interests[]" value="sports" />
+        <input type="checkbox" name="interests[]" value="art" checked />
+        <input type="radio" name="contactMethod" value="email" />
+        <input type="radio" name="contactMethod" value="phone" checked />
+        <select name="languages" multiple>
+          <option value="en" selected>English</option>
+          <option value="fr">French</option>
+          <option value="de" selected>German</option>
+        </select>
+        <select name="country"><option value="us" selected>US</option></select>
+      `)
+
+      expect(processForm(form)).toEqual({
+        interests: ['music', 'art'],
+        contactMethod: 'phone',
+        languages: ['en', 'de'],
+        country: 'us',
+      })
+    })
+
+    it('should apply data-type attributes and name hints', () => {
+      const form = createForm(`
+        <input type="hidden" name="user[id]" value="42" data-type="number" />
+        <input type="text" name="user[joined]" value="2020-01-02" data-type="date" />
+        <input type="hidden" name="user[admin]" value="true" data-type="boolean" />
+        <input type="number" name="user[zip]" value="01234" data-type="string" />
+        <input type="text" name="items[0][qty]:number" value="3" data-type="string" />
+        <select name="items[0][size]:number"><option value="12" selected>12</option></select>
+        <input type="radio" name="items[0][priority]:number" value="2" checked />
+        <input type="checkbox" name="items[0][gift]" value="yes" data-type="boolean" />
+      `)
+
+      expect(processForm(form)).toEqual({
+        user: { id: 42, joined: new Date('2020-01-02'), admin: true, zip: '01234' },
+        items: [{ qty: 3, size: 12, priority: 2, gift: false }],
+      })
+    })
+
+    it('should skip buttons, disabled controls and unnamed inputs', () => {
+      const form = createForm(`
+        <input type="text" name="name" value="John" />
+        <input type="text" name="locked" value="x" disabled />
+        <fieldset disabled><input type="number" name="hidden" value="1" /></fieldset>
+        <input type="text" value="no name" />
+        <button type="submit" name="action" value="save">Save</button>
+        <input type="submit" name="go" value="Go" />
+      `)
+
+      expect(processForm(form)).toEqual({ name: 'John' })
+    })
+
+    it('should pass options through to processFormData', () => {
+      const form = createForm(`
+        <input type="text" name="user.name" value=" John " />
+        <input type="number" name="user.age" />
+      `)
+
+      expect(processForm(form, { pathSyntax: 'dot', trimStrings: true })).toEqual({ user: { name: 'John', age: null } })
+    })
+  })
+
+  describe('with detached data', () => {
+    it('should type FormData values by name hints', () => {
+      const formData = new FormData()
+      formData.append('order[qty]:number', '3')
+      formData.append('order[gift]:boolean', 'on')
+      formData.append('order[due]:date', '2024-03-01')
+      formData.append('order[note]:string', '007')
+      formData.append('order[sizes][]:number', '0')
+      formData.append('order[sizes][]:number', '12')
+      formData.append('meeting', '10:30')
+
+      expect(processForm(formData)).toEqual({
+        order: { qty: 3, gift: true, due: new Date('2024-03-01'), note: '007', sizes: [0, 12] },
+        meeting: '10:30',
+      })
+    })
+
+    it('should type query strings and entries by name hints', () => {
+      expect(processForm('page:number=2&filters[active]:boolean=false')).toEqual({
+        page: 2,
+        filters: { active: false },
+      })
+      expect(processForm([['limit:number', ' 50 ']])).toEqual({ limit: 50 })
+    })
+
+    it('should leave plain objects unchanged', () => {
+      expect(processForm({ 'qty:number': '3', user: { age: 30 } })).toEqual({ 'qty:number': '3', user: { age: 30 } })
+    })
+  })
+})
+
+describe('parseTypeHint', () => {
+  it('should split known hints off the name', () => {
+    expect(parseTypeHint('items[0][qty]:number')).toEqual({ name: 'items[0][qty]', hint: 'number' })
+    expect(parseTypeHint('agree:boolean')).toEqual({ name: 'agree', hint: 'boolean' })
+  })
+
+  it('should keep unknown suffixes as part of the name', () => {
+    expect(parseTypeHint('time:12')).toEqual({ name: 'time:12', hint: null })
+    expect(parseTypeHint('qty')).toEqual({ name: 'qty', hint: null })
+  })
+})
+
+describe('applyTypeHint', () => {
+  it('should convert strings to the hinted type', () => {
+    expect(applyTypeHint(' 4.5 ', 'number')).toBe(4.5)
+    expect(applyTypeHint('abc', 'number')).toBeNaN()
+    expect(applyTypeHint('', 'number')).toBeNull()
+    expect(applyTypeHint('Yes', 'boolean')).toBe(true)
+    expect(applyTypeHint('off', 'boolean')).toBe(false)
+    expect(applyTypeHint('', 'date')).toBeNull()
+    expect(applyTypeHint('text', 'string')).toBe('text')
+  })
+
+  it('should leave files unchanged', () => {
+    const file = new File(['x'], 'x.txt')
+
+    expect(applyTypeHint(file, 'number')).toBe(file)
+  })
+})
@@ -0,0 +1,162 @@
+import { FormDataInput, processFormData, ProcessFormDataOptions } from './formUtils'
+import { parseQueryString } from './queryUtils'
+import { TRUE_VALUES } from './schemaUtils'
+
+/**
+ * Type definitions for typed form values
+ */
+export type TypeHint = 'string' | 'number' | 'boolean' | 'date'
+
+export type TypedFormValue = string | number | boolean | Date | File | null
+
+export interface TypedFormData {
+  [key: string]: TypedFormValue | TypedFormData | Array<TypedFormValue | TypedFormData>
+}
+
+const TYPE_HINTS = new Set<string>(['string', 'number', 'boolean', 'date'])
+
+const isTypeHint = (value: string | undefined): value is TypeHint => value !== undefined && TYPE_HINTS.has(value)
+
+/**
+ * Splits a type hint suffix off a field name, e.g. `items[0][qty]:number`
+ * @param field - The submitted field name
+ * @returns The name without the suffix and the hint, or null if the name has no known hint
+ */
+export function parseTypeHint(field: string): { name: string; hint: TypeHint | null } {
+  const separator = field.lastIndexOf(':')
+  const hint = separator === -1 ? undefined : field.substring(separator + 1)
+  return isTypeHint(hint) ? { name: field.substring(0, separator), hint } : { name: field, hint: null }
+}
+
+/**
+ * Converts a submitted string to the hinted type; files are returned unchanged
+ * @param value - The submitted value
+ * @param hint - The target type
+ * @returns The typed value: blank numbers and dates become null, invalid numbers NaN,
+ * and booleans are true for `on`, `true`, `1` or `yes`
+ */
+export function applyTypeHint(value: unknown, hint: TypeHint): unknown {
+  if (typeof value !== 'string') return value
+
+  const trimmed = value.trim()
+  switch (hint) {
+    case 'number':
+      return trimmed === '' ? null : Number(trimmed)
+    case 'boolean':
+      return TRUE_VALUES.has(trimmed.toLowerCase())
+    case 'date':
+      return trimmed === '' ? null : new Date(trimmed)
+    default:
+      return value
+  }
+}
+
+// Input types whose value is never submitted as a field
+export const BUTTON_TYPES = new Set(['submit', 'reset', 'button', 'image'])
+
+/**
+ * Reads the value of an input using its type, as the DOM exposes it
+ * @param input - The input element
+ * @param hint - A type from the name or data-type attribute, which takes precedence
+ * @returns The typed values to submit, in order; empty when the input submits nothing
+ */
+function readInput(input: HTMLInputElement, hint: TypeHint | null): unknown[] {
+  switch (input.type) {
+    case 'checkbox':
+      // A checkbox without its own value is a boolean; with one it is part of a group of values
+      if (hint === 'boolean' || (hint === null && !input.hasAttribute('value'))) return [input.checked]
+      return input.checked ? [hint ? applyTypeHint(input.value, hint) : input.value] : []
+    case 'radio':
+      return input.checked ? [hint ? applyTypeHint(input.value, hint) : input.value] : []
+    case 'file':
+      return Array.from(input.files ?? [])
+  }
+
+  if (hint) return [applyTypeHint(input.value, hint)]
+
+  switch (input.type) {
+    case 'number':
+    case 'range':
+      return [input.value === '' ? null : input.valueAsNumber]
+    case 'date':
+    case 'month':
+    case 'week': {
+      // Copied so a Date from another realm, such as a form in an iframe, is still a Date here
+      const date = input.valueAsDate
+      return [date && new Date(date.getTime())]
+    }
+    case 'datetime-local':
+      // valueAsDate is not available for local date-times, which are read in the local time zone
+      return [input.value === '' ? null : new Date(input.value)]
+    default:
+      return [input.value]
+  }
+}
+
+/**
+ * Reads every successful control of a form with typed values, in document order
+ * @param form - The form element
+ * @returns The `[name, value]` entries, with type hints removed from the names
+ */
+export function readFormEntries(form: HTMLFormElement): Array<[string, unknown]> {
+  const entries: Array<[string, unknown]> = []
+
+  Array.from(form.elements).forEach(element => {
+    if (
+      !(element instanceof HTMLInputElement) &&
+      !(element instanceof HTMLSelectElement) &&
+      !(element instanceof HTMLTextAreaElement)
+    ) {
+      return
+    }
+    if (!element.name || element.matches(':disabled') || BUTTON_TYPES.has(element.type)) return
+
+    // A hint in the name takes precedence over a data-type attribute
+    const { name, hint: nameHint } = parseTypeHint(element.name)
+    const hint = nameHint ?? (isTypeHint(element.dataset.type) ? element.dataset.type : null)
+
+    let values: unknown[]
+    if (element instanceof HTMLInputElement) {
+      values = readInput(element, hint)
+    } else if (element instanceof HTMLSelectElement) {
+      values = Array.from(element.selectedOptions, option => (hint ? applyTypeHint(option.value, hint) : option.value))
+    } else {
+      values = [hint ? applyTypeHint(element.value, hint) : element.value]
+    }
+    values.forEach(value => entries.push([name, value]))
+  })
+
+  return entries
+}
+
+/**
+ * Converts a form into a structured object with typed values. With a form element the DOM
+ * provides the types: number inputs become numbers, date inputs Dates, checkboxes without a
+ * value booleans (unchecked ones false), and a `data-type` attribute overrides the input type.
+ * Detached data such as FormData is typed by name suffixes instead, e.g. `qty:number`.
+ * @param form - A form element, or any input accepted by processFormData
+ * @param options - Options passed to processFormData
+ * @returns Structured form data with typed values
+ */
+export function processForm(
+  form: HTMLFormElement | FormDataInput,
+  options: ProcessFormDataOptions = {}
+): TypedFormData {
+  let entries: Array<[string, unknown]> | null = null
+
+  if (typeof HTMLFormElement !== 'undefined' && form instanceof HTMLFormElement) {
+    entries = readFormEntries(form)
+  } else if (typeof form === 'string' || Symbol.iterator in form) {
+    const submitted =
+      typeof form === 'string'
+        ? parseQueryString(form, { charset: options.charset })
+        : Array.from(form as Iterable<readonly [string, unknown]>)
+    entries = submitted.map(([field, value]) => {
+      const { name, hint } = parseTypeHint(field)
+      return [name, hint ? applyTypeHint(value, hint) : value]
+    })
+  }
+
+  // Plain objects already carry typed values
+  return processFormData(entries ?? (form as FormDataInput), options) as TypedFormData
+}
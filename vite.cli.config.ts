@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Builds the command-line tool for Node, next to the app in dist
+export default defineConfig({
+  // The app's static assets are not part of the tool
+  publicDir: false,
+  build: {
+    ssr: 'src/cli.ts',
+    outDir: 'dist/cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})